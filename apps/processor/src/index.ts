@@ -1,11 +1,34 @@
 import express from "express"
 import multer from "multer"
 import cors from "cors"
-import { processBookCover } from "./services/bookProcessor.js"
+import { getPipelineConfigErrors, resolveExtractionMode } from "./services/bookProcessor.js"
+import { createJob, getJob, getJobQueueStats, subscribeToJob, waitForJob } from "./services/jobService.js"
+import { CACHE_LAYERS, isCacheEnabled, purgeCache } from "./services/cacheService.js"
+import {
+  BatchLimitError,
+  createBatch,
+  createBatchUploadStorage,
+  exportBatchCsv,
+  extractZipImages,
+  getBatch,
+  getBatchLimits,
+  getBatchRows,
+  isZipUpload,
+} from "./services/batchService.js"
+import type { BatchUpload } from "./services/batchService.js"
+import type { CacheLayer } from "./services/cacheService.js"
+import { describeStageConfig, getProviderConfigErrors } from "./services/visionProvider.js"
+import { getMetadataProviders } from "./services/metadataProvider.js"
+import { getGoogleBooksUsage, GoogleBooksError } from "./services/googleBooksClient.js"
+import { MetadataProviderError } from "./services/metadataProvider.js"
+import { normalizeLanguage } from "./services/language.js"
+import { parsePageSelector } from "./services/pageSelector.js"
+import { closeBrowserPool, getBrowserPoolStats, isBrowserPoolWarmEnabled, warmBrowserPool } from "./services/browserPool.js"
 import path from "path"
 import { fileURLToPath } from "url"
 import dotenv from "dotenv"
 import fs from "fs"
+import type { ProcessOptions } from "shared"
 
 // Get the directory name properly in ES modules
 const __filename = fileURLToPath(import.meta.url)
@@ -21,9 +44,10 @@ if (fs.existsSync(envPath)) {
   dotenv.config() // Try to load from default location
 }
 
-// Verify OpenAI API key is available
-if (!process.env.OPENAI_API_KEY) {
-  console.error("OPENAI_API_KEY environment variable is not set!")
+// Verify the configured vision providers are usable
+const providerConfigErrors = getProviderConfigErrors()
+if (providerConfigErrors.length > 0) {
+  providerConfigErrors.forEach((reason) => console.error(reason))
   console.error("Please set it in your .env file or environment variables.")
   console.error("Current environment variables:", Object.keys(process.env))
 }
@@ -32,17 +56,29 @@ const app = express()
 const port = process.env.PORT || 3001
 
 // Configure multer for file uploads
-const storage = multer.memoryStorage()
+// Phone photos can exceed 10MB; they are downscaled before processing
+const uploadMaxBytes = Number(process.env.UPLOAD_MAX_BYTES) || 25 * 1024 * 1024 // 25MB default
 const upload = multer({
-  storage,
-  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
+  storage: multer.memoryStorage(),
+  limits: { fileSize: uploadMaxBytes },
 })
 
+// Batches take many images or a zip archive, each no larger than a single upload; the
+// storage stops reading once they add up to more than the batch's size limit
+const batchLimits = getBatchLimits()
+const batchUpload = multer({
+  storage: createBatchUploadStorage(batchLimits.maxUncompressedBytes),
+  limits: { fileSize: uploadMaxBytes, files: batchLimits.maxItems + 1 },
+}).fields([
+  { name: "image", maxCount: batchLimits.maxItems },
+  { name: "archive", maxCount: 1 },
+])
+
 // Enable CORS with more specific configuration
 app.use(
   cors({
     origin: "*", // In production, you should restrict this to your frontend domain
-    methods: ["GET", "POST", "OPTIONS"],
+    methods: ["GET", "POST", "DELETE", "OPTIONS"],
     allowedHeaders: ["Content-Type", "Authorization"],
     credentials: true,
   }),
@@ -103,6 +139,7 @@ app.get("/", (req, res) => {
         }
         .get { background-color: #10b981; color: white; }
         .post { background-color: #3b82f6; color: white; }
+        .delete { background-color: #ef4444; color: white; }
       </style>
     </head>
     <body>
@@ -116,22 +153,101 @@ app.get("/", (req, res) => {
         <pre><code>{
   "status": "ok",
   "timestamp": "2025-03-07T12:34:56.789Z",
-  "version": "1.0.0"
+  "version": "1.0.0",
+  "browserPool": { "size": 2, "running": 2, "busy": 1, "waiting": 0, "leases": 17, "recycled": 0, "crashes": 0, ... }
 }</code></pre>
       </div>
       
       <div class="endpoint">
         <h2><span class="method post">POST</span>/api/process</h2>
         <p>Process a book cover image and extract text from its pages.</p>
-        <p>Request: multipart/form-data with an 'image' field containing the book cover image.</p>
+        <p>Request: multipart/form-data with an 'image' field containing the book cover image.
+        Optional 'extractionMode' field: <code>llm</code> (default) or <code>ocr</code> for local tesseract OCR.
+        Optional 'volumeId' field: a Google Books volume id or Open Library work id picked from a previous response's <code>candidates</code>;
+        identification is skipped and the image may be omitted.</p>
+        <p>Photos of the back cover work too: an EAN-13/ISBN barcode is decoded locally and looked up directly,
+        without identifying the cover (disable with <code>BARCODE_SCAN=false</code>).</p>
+        <p>Optional 'autoCrop' field: <code>true</code> to trim the background around the book before identification
+        (defaults to <code>IMAGE_AUTO_CROP</code>). The applied transform is returned as <code>preprocessing</code>.</p>
+        <p>Optional 'targetLanguage' field: a language code such as <code>es</code> to also translate the extracted text
+        into; the translation is returned as <code>translation</code>. The language of the text itself is returned as
+        <code>language</code>.</p>
+        <p>Optional 'pageSelector' field: which preview pages to capture: <code>auto</code> (default: the second page of
+        body text for fiction, the first for non-fiction), <code>first</code>, the first N body pages (<code>body:5</code>), a page number (<code>12</code>), a range
+        (<code>3-5</code>), a front-matter section (<code>title</code>, <code>copyright</code>, <code>dedication</code>,
+        <code>contents</code>, <code>foreword</code>, <code>preface</code>, <code>introduction</code>) or
+        <code>firstChapter</code>. The Google Books page ids captured (<code>PA12</code>, <code>PP3</code>...) are returned as
+        <code>pages</code>. Text from several consecutive pages (<code>body:N</code>, ranges, <code>firstChapter</code>) is
+        returned as one passage, with a <code>[Page PA12]</code> marker where each page starts.</p>
+        <p>Optional 'bypassCache' field: <code>true</code> to ignore cached identifications and page text
+        (fresh results are still cached).</p>
+        <p>When no candidate scores above <code>MATCH_SCORE_THRESHOLD</code>, the response has
+        <code>"needsSelection": true</code> and the ranked <code>candidates</code> with their scores and reasons.</p>
         <p>Example response:</p>
         <pre><code>{
   "text": "The extracted text from the book page..."
 }</code></pre>
       </div>
       
+      <div class="endpoint">
+        <h2><span class="method post">POST</span>/api/jobs</h2>
+        <p>Start processing a book cover in the background. Takes the same fields as <code>/api/process</code>
+        and responds with <code>202</code> and the job right away.</p>
+        <p>Example response:</p>
+        <pre><code>{
+  "id": "3f0c9a6e-...",
+  "status": "queued",
+  "stage": null,
+  "statusUrl": "/api/jobs/3f0c9a6e-..."
+}</code></pre>
+      </div>
+
+      <div class="endpoint">
+        <h2><span class="method get">GET</span>/api/jobs/:id</h2>
+        <p>Get a job's status (<code>queued</code>, <code>running</code>, <code>completed</code> or <code>failed</code>),
+        its current stage, partial results from finished stages and, once completed, the final result.</p>
+      </div>
+      
+      <div class="endpoint">
+        <h2><span class="method get">GET</span>/api/jobs/:id/events</h2>
+        <p>Server-Sent Events stream of a job's progress. Events: <code>stageStarted</code>, <code>stageFinished</code>
+        (with the stage's data, e.g. the identified title/author or the Google Books volume id), <code>pageChecked</code>
+        (each preview page screenshot checked for the first page, with <code>checkedBy</code>: <code>local</code> when its OCR text settled it,
+        <code>model</code> when the vision model was asked; the base64 <code>screenshot</code> is only included while the job
+        is running, not in events replayed to later subscribers), then <code>completed</code> or <code>failed</code>.</p>
+      </div>
+
+      <div class="endpoint">
+        <h2><span class="method post">POST</span>/api/batches</h2>
+        <p>Process many book covers at once. Send several 'image' parts, or a zip archive of images as 'archive'
+        (up to <code>BATCH_MAX_ITEMS</code> images and <code>BATCH_MAX_UNCOMPRESSED_BYTES</code> in total).
+        Takes the same options as <code>/api/jobs</code>, except 'volumeId'. Each image runs as its own job,
+        <code>BATCH_CONCURRENCY</code> at a time; responds with <code>202</code> and the batch.</p>
+      </div>
+
+      <div class="endpoint">
+        <h2><span class="method get">GET</span>/api/batches/:id</h2>
+        <p>Get a batch's status, per-status item counts and each item's status, job id, result or error.</p>
+      </div>
+
+      <div class="endpoint">
+        <h2><span class="method get">GET</span>/api/batches/:id/export?format=csv</h2>
+        <p>Download the batch results as one file with a row per item (title, author, ISBN, volume id, text or error).
+        <code>format</code> is <code>json</code> (default) or <code>csv</code>.</p>
+      </div>
+
+      <div class="endpoint">
+        <h2><span class="method delete">DELETE</span>/api/admin/cache</h2>
+        <p>Purge the result cache. Optional <code>?layer=images</code> or <code>?layer=volumes</code> purges one layer.
+        Requires <code>Authorization: Bearer &lt;ADMIN_TOKEN&gt;</code>; without <code>ADMIN_TOKEN</code> set on the server,
+        the endpoint is disabled (403).</p>
+      </div>
+
       <p>Server status: <strong>Running</strong> on port ${port}</p>
       <p>OpenAI API Key: <strong>${process.env.OPENAI_API_KEY ? "Configured ✓" : "Missing ✗"}</strong></p>
+      <p>Vision providers: ${describeStageConfig()
+        .map((config) => `<code>${config.stage}</code> → ${config.provider}/${config.model} ${config.configured ? "✓" : "✗"}`)
+        .join(", ")}</p>
     </body>
     </html>
   `)
@@ -149,40 +265,98 @@ app.get("/health", (req, res) => {
     timestamp: new Date().toISOString(),
     version: process.env.npm_package_version || "1.0.0",
     openaiApiConfigured: !!process.env.OPENAI_API_KEY,
+    visionProviders: describeStageConfig(),
+    metadataProviders: getMetadataProviders().map((provider) => provider.name),
+    googleBooks: getGoogleBooksUsage(),
+    browserPool: getBrowserPoolStats(),
+    jobs: getJobQueueStats(),
+    textExtractionMode: process.env.TEXT_EXTRACTION_MODE || "llm",
+    cacheEnabled: isCacheEnabled(),
   })
 })
 
-// Process endpoint - ensure it's at /api/process to match the web service's expectation
+function parseBooleanField(value) {
+  return ["true", "1", "yes"].includes(String(value ?? "").toLowerCase())
+}
+
+/**
+ * Validates a multipart processing request and builds the pipeline options.
+ * Sends the error response itself and returns null when the request can't be processed.
+ */
+function parseProcessRequest(req, res, hasImage = !!req.file): ProcessOptions | null {
+  console.log("Request body:", req.body)
+  console.log(
+    "File:",
+    req.file
+      ? {
+          fieldname: req.file.fieldname,
+          originalname: req.file.originalname,
+          mimetype: req.file.mimetype,
+          size: req.file.size,
+        }
+      : "No file",
+  )
+
+  // A volume id chosen from an earlier run's candidates replaces the image
+  const volumeId = typeof req.body?.volumeId === "string" && req.body.volumeId.trim() ? req.body.volumeId.trim() : undefined
+
+  if (!hasImage && !volumeId) {
+    res.status(400).json({ error: "No image provided" })
+    return null
+  }
+
+  let extractionMode
+  try {
+    extractionMode = resolveExtractionMode(req.body?.extractionMode)
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : "Invalid extraction mode" })
+    return null
+  }
+
+  // Any form normalizeLanguage understands ("es", "es-MX", "spa", "Spanish"), sent on as ISO 639-1
+  let targetLanguage: string | undefined
+  if (typeof req.body?.targetLanguage === "string" && req.body.targetLanguage.trim()) {
+    targetLanguage = normalizeLanguage(req.body.targetLanguage) ?? undefined
+    if (!targetLanguage) {
+      res.status(400).json({ error: `Unsupported target language "${req.body.targetLanguage}"` })
+      return null
+    }
+  }
+
+  let pageSelector
+  try {
+    pageSelector = parsePageSelector(req.body?.pageSelector)
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : "Invalid page selector" })
+    return null
+  }
+
+  // Check that every pipeline stage this run uses has a configured provider
+  const configErrors = getPipelineConfigErrors(extractionMode, !!volumeId, !!targetLanguage)
+  if (configErrors.length > 0) {
+    res.status(500).json({ error: configErrors.join(" ") })
+    return null
+  }
+
+  const bypassCache = parseBooleanField(req.body?.bypassCache)
+  const autoCrop = req.body?.autoCrop === undefined ? undefined : parseBooleanField(req.body.autoCrop)
+
+  return { extractionMode, volumeId, bypassCache, autoCrop, targetLanguage, pageSelector }
+}
+
+// Process endpoint - ensure it's at /api/process to match the web service's expectation.
+// Kept for compatibility: it runs a job and holds the request open until it finishes.
 app.post("/api/process", upload.single("image"), async (req, res) => {
   try {
     console.log("Received process request")
-    console.log("Request body:", req.body)
-    console.log(
-      "File:",
-      req.file
-        ? {
-            fieldname: req.file.fieldname,
-            originalname: req.file.originalname,
-            mimetype: req.file.mimetype,
-            size: req.file.size,
-          }
-        : "No file",
-    )
-
-    if (!req.file) {
-      return res.status(400).json({ error: "No image provided" })
-    }
 
-    // Check if OpenAI API key is configured
-    if (!process.env.OPENAI_API_KEY) {
-      return res.status(500).json({
-        error: "OpenAI API key is not configured. Please set the OPENAI_API_KEY environment variable.",
-      })
-    }
+    const options = parseProcessRequest(req, res)
+    if (!options) return
 
-    console.log("Processing image of size:", req.file.size, "bytes")
+    console.log("Processing image of size:", req.file?.size ?? 0, "bytes")
 
-    const result = await processBookCover(req.file.buffer)
+    const job = createJob(req.file?.buffer ?? null, options)
+    const result = await waitForJob(job.id)
     return res.json(result)
   } catch (error) {
     console.error("Error processing book cover:", error)
@@ -193,6 +367,19 @@ app.post("/api/process", upload.single("image"), async (req, res) => {
       })
     }
 
+    // Uploads the image preprocessor can't decode
+    if (
+      error instanceof Error &&
+      (error.message.includes("HEIC images are not supported") || error.message.includes("Could not read the uploaded image"))
+    ) {
+      return res.status(400).json({ error: error.message })
+    }
+
+    // A volumeId the provider doesn't know, or the metadata providers not answering
+    if (error instanceof GoogleBooksError || error instanceof MetadataProviderError) {
+      return res.status(error.kind === "notFound" ? 404 : 502).json({ error: error.message })
+    }
+
     return res.status(500).json({
       error:
         "An error occurred while processing the image: " + (error instanceof Error ? error.message : "Unknown error"),
@@ -200,6 +387,178 @@ app.post("/api/process", upload.single("image"), async (req, res) => {
   }
 })
 
+// Start a processing job and return its id right away
+app.post("/api/jobs", upload.single("image"), (req, res) => {
+  console.log("Received job request")
+
+  const options = parseProcessRequest(req, res)
+  if (!options) return
+
+  const job = createJob(req.file?.buffer ?? null, options)
+  return res.status(202).json({ ...job, statusUrl: `/api/jobs/${job.id}` })
+})
+
+// Poll a job for its status, current stage, partial results and final result
+app.get("/api/jobs/:id", (req, res) => {
+  const job = getJob(req.params.id)
+  if (!job) {
+    return res.status(404).json({ error: `Job not found: ${req.params.id}` })
+  }
+  return res.json(job)
+})
+
+// Stream a job's progress as Server-Sent Events, starting with the events emitted so far
+app.get("/api/jobs/:id/events", (req, res) => {
+  if (!getJob(req.params.id)) {
+    return res.status(404).json({ error: `Job not found: ${req.params.id}` })
+  }
+
+  res.status(200)
+  res.setHeader("Content-Type", "text/event-stream")
+  res.setHeader("Cache-Control", "no-cache")
+  res.setHeader("Connection", "keep-alive")
+  res.flushHeaders()
+
+  // Comment lines keep proxies from closing an idle stream during long stages
+  const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), 15000)
+
+  let unsubscribe: (() => void) | null = null
+  const close = () => {
+    clearInterval(keepAlive)
+    unsubscribe?.()
+    res.end()
+  }
+
+  unsubscribe = subscribeToJob(req.params.id, (event) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+    if (event.type === "completed" || event.type === "failed") {
+      // Defer so subscribeToJob has returned before we unsubscribe
+      setImmediate(close)
+    }
+  })
+
+  req.on("close", close)
+})
+
+/**
+ * Collects a batch request's images: the uploaded 'image' parts plus the contents of
+ * any zip archive (sent as 'archive', or as an 'image' part that is a zip).
+ */
+async function collectBatchUploads(files: Express.Multer.File[]) {
+  const uploads: BatchUpload[] = []
+  let totalBytes = 0
+
+  for (const file of files) {
+    const remainingItems = batchLimits.maxItems - uploads.length
+    const remainingBytes = batchLimits.maxUncompressedBytes - totalBytes
+
+    const entries = isZipUpload(file)
+      ? await extractZipImages(file.buffer, remainingItems, remainingBytes)
+      : [{ name: file.originalname, buffer: file.buffer }]
+
+    uploads.push(...entries)
+    totalBytes += entries.reduce((sum, entry) => sum + entry.buffer.length, 0)
+    if (uploads.length > batchLimits.maxItems) {
+      throw new Error(`Batch contains more than the limit of ${batchLimits.maxItems} images`)
+    }
+    if (totalBytes > batchLimits.maxUncompressedBytes) {
+      throw new Error("Batch exceeds the decompressed size limit")
+    }
+  }
+  return uploads
+}
+
+// Start processing many covers at once; each image becomes its own job
+app.post("/api/batches", (req, res) => {
+  console.log("Received batch request")
+
+  batchUpload(req, res, async (uploadError) => {
+    if (uploadError instanceof multer.MulterError || uploadError instanceof BatchLimitError) {
+      return res.status(400).json({ error: `Invalid batch upload: ${uploadError.message}` })
+    }
+    if (uploadError) {
+      return res.status(500).json({ error: "Failed to read upload: " + uploadError.message })
+    }
+
+    if (req.body?.volumeId) {
+      return res.status(400).json({ error: "volumeId can't be used with batches, use /api/jobs instead" })
+    }
+
+    const fileFields = (req.files || {}) as Record<string, Express.Multer.File[]>
+    const files = [...(fileFields.image || []), ...(fileFields.archive || [])]
+
+    const options = parseProcessRequest(req, res, files.length > 0)
+    if (!options) return
+
+    let uploads: BatchUpload[]
+    try {
+      uploads = await collectBatchUploads(files)
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : "Invalid batch upload" })
+    }
+
+    if (uploads.length === 0) {
+      return res.status(400).json({ error: "No images found in the upload" })
+    }
+
+    const batch = createBatch(uploads, options)
+    return res.status(202).json({ ...batch, statusUrl: `/api/batches/${batch.id}` })
+  })
+})
+
+// Poll a batch for its overall status and each item's status and result
+app.get("/api/batches/:id", (req, res) => {
+  const batch = getBatch(req.params.id)
+  if (!batch) {
+    return res.status(404).json({ error: `Batch not found: ${req.params.id}` })
+  }
+  return res.json(batch)
+})
+
+// Download a batch's results as one CSV or JSON file, one row per item
+app.get("/api/batches/:id/export", (req, res) => {
+  const batch = getBatch(req.params.id)
+  if (!batch) {
+    return res.status(404).json({ error: `Batch not found: ${req.params.id}` })
+  }
+
+  const format = req.query.format ?? "json"
+  if (format !== "json" && format !== "csv") {
+    return res.status(400).json({ error: `Invalid export format "${format}", expected csv or json` })
+  }
+
+  res.setHeader("Content-Disposition", `attachment; filename="batch-${batch.id}.${format}"`)
+  if (format === "csv") {
+    res.setHeader("Content-Type", "text/csv; charset=utf-8")
+    return res.send(exportBatchCsv(batch))
+  }
+  return res.json({ id: batch.id, status: batch.status, counts: batch.counts, items: getBatchRows(batch) })
+})
+
+// Purge the result cache. Requires "Authorization: Bearer <ADMIN_TOKEN>", and is disabled
+// when no ADMIN_TOKEN is set: CORS lets any site call this API.
+app.delete("/api/admin/cache", async (req, res) => {
+  if (!process.env.ADMIN_TOKEN) {
+    return res.status(403).json({ error: "Cache purging is disabled; set ADMIN_TOKEN to enable it" })
+  }
+  if (req.headers.authorization !== `Bearer ${process.env.ADMIN_TOKEN}`) {
+    return res.status(401).json({ error: "Unauthorized" })
+  }
+
+  const layer = req.query.layer
+  if (layer !== undefined && !CACHE_LAYERS.includes(layer as CacheLayer)) {
+    return res.status(400).json({ error: `Invalid cache layer "${layer}", expected one of: ${CACHE_LAYERS.join(", ")}` })
+  }
+
+  try {
+    const removed = await purgeCache(layer ? [layer as CacheLayer] : CACHE_LAYERS)
+    return res.json({ removed })
+  } catch (error) {
+    console.error("Error purging cache:", error)
+    return res.status(500).json({ error: "Failed to purge cache: " + (error instanceof Error ? error.message : "Unknown error") })
+  }
+})
+
 // Handle 404 errors - must be JSON for API routes, HTML for other routes
 app.use((req, res) => {
   if (req.path.startsWith("/api")) {
@@ -257,8 +616,17 @@ const server = app.listen(port, () => {
   console.log(`Processor service running on port ${port}`)
   console.log(`- Health check: http://localhost:${port}/health`)
   console.log(`- API endpoint: http://localhost:${port}/api/process`)
+  console.log(`- Jobs endpoint: http://localhost:${port}/api/jobs`)
   console.log(`- Documentation: http://localhost:${port}/`)
   console.log(`- OpenAI API Key: ${process.env.OPENAI_API_KEY ? "Configured ✓" : "Missing ✗"}`)
+  describeStageConfig().forEach((config) => {
+    console.log(`- Vision ${config.stage}: ${config.provider}/${config.model} ${config.configured ? "✓" : "✗"}`)
+  })
+
+  // Start the screenshot stage's browsers now rather than on the first request
+  if (isBrowserPoolWarmEnabled()) {
+    warmBrowserPool().then(() => console.log(`- Browser pool: ${getBrowserPoolStats().running} browsers running`))
+  }
 })
 
 // Handle graceful shutdown
@@ -267,5 +635,6 @@ process.on("SIGTERM", () => {
   server.close(() => {
     console.log("HTTP server closed")
   })
+  closeBrowserPool().then(() => console.log("Browser pool closed"))
 })
 
@@ -0,0 +1,293 @@
+import "dotenv/config"
+import * as fs from "fs/promises"
+import * as path from "path"
+import type Tesseract from "tesseract.js"
+import { createOcrWorkerForLanguage, recognizePage } from "../services/ocrService.js"
+import { FIRST_PAGE_SCORE, NOT_FIRST_PAGE_SCORE, scoreFirstPage } from "../services/firstPageDetector.js"
+import type { FirstPageScore, FirstPageVerdict } from "../services/firstPageDetector.js"
+import { extractBookScreenshots } from "../services/bookProcessor.js"
+import { fetchBookById } from "../services/bookInfoService.js"
+import { closeBrowserPool } from "../services/browserPool.js"
+
+/**
+ * Compares the local first-page detector with the model-only check it replaces.
+ *
+ *   npm run benchmark:first-page -- record <fixture dir> <volume id>...
+ *   npm run benchmark:first-page -- <fixture dir>
+ *
+ * `record` pages through each book's preview the way the pipeline does, with the model asked
+ * about every page, and saves each checked page with the model's answer. Without it, each
+ * recorded page is OCR'd and scored again; pages the heuristic can't settle use the model's
+ * recorded answer, as the pipeline would. A page's reference answer is its hand-checked
+ * `expected` value when set, otherwise what the model answered.
+ *
+ * The fixture dir may also hold transcribed books (fixtures/first-page has a set): one JSON
+ * file per book with each page's text and hand-checked answer, scored without OCR. They have
+ * no model answers, so the model is counted as right on the pages left to it.
+ */
+
+// A recorded page: the image sits next to this JSON file, under the book's directory
+interface FirstPageFixture {
+  bookId: string
+  index: number
+  pageId: string | null
+  // The book's language, which picks the OCR language pack
+  language: string | null
+  mimeType: string
+  image: string
+  // What the firstPage-stage model answered
+  model: boolean
+  // Hand-checked answer, when the model's is known to be wrong
+  expected?: boolean
+}
+
+// A transcribed book: the text of the pages a search would page through, in order
+interface TranscribedBook {
+  bookId: string
+  description?: string
+  language: string | null
+  pages: Array<{
+    pageId: string | null
+    text: string
+    expected: boolean
+    // Mean OCR confidence to score the text with, for pages transcribed from a poor scan
+    confidence?: number
+  }>
+}
+
+// A page to score: recorded pages are OCR'd from their image, transcribed ones have their text
+type BenchmarkPage =
+  | (FirstPageFixture & { imagePath: string })
+  | { bookId: string; index: number; pageId: string | null; language: string | null; text: string; confidence: number | null; expected: boolean }
+
+interface PageOutcome {
+  reference: boolean
+  // null for transcribed pages, which nobody asked the model about
+  model: boolean | null
+  score: FirstPageScore
+  verdict: FirstPageVerdict
+  hybrid: boolean
+  ocrMs: number | null
+}
+
+// Every pair of thresholds within this distance of zero is tried
+const SWEEP_RANGE = 6
+
+function percent(count: number, total: number) {
+  return total > 0 ? `${((count / total) * 100).toFixed(1)}%` : "n/a"
+}
+
+function mean(values: number[]) {
+  return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0
+}
+
+// Index of the page a search would have stopped at, or null when it ran out of recorded pages
+function firstMatch(pages: PageOutcome[], isFirst: (page: PageOutcome) => boolean) {
+  const index = pages.findIndex(isFirst)
+  return index === -1 ? null : index
+}
+
+// The verdict scoreFirstPage would give with other thresholds
+function verdictAt(score: FirstPageScore, first: number, notFirst: number): FirstPageVerdict {
+  if (score.signals.includes("lowOcrConfidence")) return "ambiguous"
+  return score.score >= first ? "first" : score.score <= notFirst ? "notFirst" : "ambiguous"
+}
+
+// Pages left to the model are answered the way the model did, or correctly when it wasn't asked
+function decide(page: Pick<PageOutcome, "reference" | "model">, verdict: FirstPageVerdict) {
+  return verdict === "ambiguous" ? (page.model ?? page.reference) : verdict === "first"
+}
+
+async function recordBook(fixtureDir: string, volumeId: string) {
+  const bookInfo = await fetchBookById(volumeId)
+  const language = bookInfo.language ?? null
+  const bookDir = path.join(fixtureDir, volumeId.replace(/[^A-Za-z0-9_-]/g, "_"))
+  await fs.mkdir(bookDir, { recursive: true })
+
+  const writes: Promise<void>[] = []
+  await extractBookScreenshots(volumeId, bookInfo.isFiction, (event) => {
+    if (event.type !== "pageChecked" || !event.screenshot) return
+    const buffer = Buffer.from(event.screenshot, "base64")
+    // PNG files start with "\x89PNG"; the viewer's page images are JPEGs otherwise
+    const mimeType = buffer.subarray(1, 4).toString("latin1") === "PNG" ? "image/png" : "image/jpeg"
+    const name = `${String(event.index).padStart(2, "0")}-${event.pageId ?? "unknown"}`
+    const image = `${name}.${mimeType === "image/png" ? "png" : "jpg"}`
+    const fixture: FirstPageFixture = { bookId: volumeId, index: event.index, pageId: event.pageId ?? null, language, mimeType, image, model: event.isFirstPage }
+
+    writes.push(
+      fs.writeFile(path.join(bookDir, image), buffer),
+      fs.writeFile(path.join(bookDir, `${name}.json`), JSON.stringify(fixture, null, 2)),
+    )
+  }, { kind: "auto" }, language)
+  await Promise.all(writes)
+  console.log(`${volumeId}: recorded ${writes.length / 2} pages`)
+}
+
+async function record(fixtureDir: string, volumeIds: string[]) {
+  // Record the model's answer for every page, as the search did before the local detector
+  process.env.LOCAL_FIRST_PAGE_DETECTION = "false"
+  try {
+    for (const volumeId of volumeIds) await recordBook(fixtureDir, volumeId)
+  } finally {
+    await closeBrowserPool()
+  }
+}
+
+/**
+ * Reads recorded fixtures and transcribed books.
+ * @returns {Map} - Each book's pages in the order they were checked; recorded ones with the image's full path
+ */
+async function loadFixtures(fixtureDir: string) {
+  const books = new Map<string, BenchmarkPage[]>()
+
+  for (const entry of await fs.readdir(fixtureDir, { withFileTypes: true })) {
+    if (entry.isFile() && entry.name.endsWith(".json")) {
+      const book: TranscribedBook = JSON.parse(await fs.readFile(path.join(fixtureDir, entry.name), "utf-8"))
+      books.set(
+        book.bookId,
+        book.pages.map((page, index) => ({
+          bookId: book.bookId,
+          index: index + 1,
+          pageId: page.pageId,
+          language: book.language,
+          text: page.text,
+          confidence: page.confidence ?? null,
+          expected: page.expected,
+        })),
+      )
+      continue
+    }
+    if (!entry.isDirectory()) continue
+    const bookDir = path.join(fixtureDir, entry.name)
+    const files = (await fs.readdir(bookDir)).filter((file) => file.endsWith(".json")).sort()
+
+    const fixtures: (FirstPageFixture & { imagePath: string })[] = []
+    for (const file of files) {
+      const fixture: FirstPageFixture = JSON.parse(await fs.readFile(path.join(bookDir, file), "utf-8"))
+      fixtures.push({ ...fixture, imagePath: path.join(bookDir, fixture.image) })
+    }
+    if (fixtures.length > 0) books.set(fixtures[0].bookId, fixtures.sort((a, b) => a.index - b.index))
+  }
+
+  return books
+}
+
+// Reads a page's text: transcribed pages have it, recorded ones are OCR'd with the book's language pack
+async function readPage(page: BenchmarkPage, worker: () => Promise<Tesseract.Worker>) {
+  if ("text" in page) return { text: page.text, confidence: page.confidence, ocrMs: null }
+  const base64 = (await fs.readFile(page.imagePath)).toString("base64")
+  const startedAt = Date.now()
+  const { text, confidence } = await recognizePage(base64, await worker())
+  return { text, confidence, ocrMs: Date.now() - startedAt }
+}
+
+async function scoreBook(fixtures: BenchmarkPage[]) {
+  // Only recorded pages need OCR, so the worker is started on the first of them
+  const ocr: { worker?: Promise<Tesseract.Worker> } = {}
+  const getWorker = () => (ocr.worker ??= createOcrWorkerForLanguage(fixtures[0].language))
+  const pages: PageOutcome[] = []
+
+  try {
+    for (const fixture of fixtures) {
+      const { text, confidence, ocrMs } = await readPage(fixture, getWorker)
+      const score = scoreFirstPage(text, { pageId: fixture.pageId, confidence })
+      const reference = "text" in fixture ? fixture.expected : (fixture.expected ?? fixture.model)
+      const model = "text" in fixture ? null : fixture.model
+      pages.push({ reference, model, score, verdict: score.verdict, hybrid: decide({ reference, model }, score.verdict), ocrMs })
+    }
+  } finally {
+    if (ocr.worker) await (await ocr.worker).terminate()
+  }
+  return pages
+}
+
+/**
+ * How each pair of thresholds would have done: the share of pages decided locally, how many of
+ * those were right, and the model calls left.
+ */
+function sweepThresholds(books: PageOutcome[][]) {
+  const pages = books.flat()
+  console.log("")
+  console.log("Threshold sweep (first / notFirst: decided locally, of which correct, model calls):")
+  for (let first = 1; first <= SWEEP_RANGE; first++) {
+    const row: string[] = []
+    for (let notFirst = -1; notFirst >= -SWEEP_RANGE; notFirst--) {
+      const verdicts = pages.map((page) => verdictAt(page.score, first, notFirst))
+      const decided = verdicts.filter((verdict) => verdict !== "ambiguous").length
+      const correct = pages.filter((page, index) => verdicts[index] !== "ambiguous" && (verdicts[index] === "first") === page.reference).length
+      const calls = books.reduce((sum, book) => {
+        const stop = firstMatch(book, (page) => decide(page, verdictAt(page.score, first, notFirst)))
+        return sum + book.slice(0, (stop ?? book.length - 1) + 1).filter((page) => verdictAt(page.score, first, notFirst) === "ambiguous").length
+      }, 0)
+      const current = first === FIRST_PAGE_SCORE && notFirst === NOT_FIRST_PAGE_SCORE ? "*" : " "
+      row.push(`${current}${first}/${notFirst}: ${percent(decided, pages.length)}, ${percent(correct, decided)}, ${calls}`.padEnd(30))
+    }
+    console.log(row.join(""))
+  }
+  console.log("* current thresholds")
+}
+
+async function compare(fixtureDir: string) {
+  const books = await loadFixtures(fixtureDir)
+  const outcomes: PageOutcome[] = []
+  const scoredBooks: PageOutcome[][] = []
+  let sameStop = 0
+  let modelCalls = 0
+  let hybridModelCalls = 0
+
+  for (const [bookId, fixtures] of books) {
+    const pages = await scoreBook(fixtures)
+
+    // Where each search would have stopped, and how many model calls it took to get there
+    const modelStop = firstMatch(pages, (page) => page.model ?? page.reference)
+    const hybridStop = firstMatch(pages, (page) => page.hybrid)
+    if (modelStop === hybridStop) sameStop++
+    modelCalls += (modelStop ?? pages.length - 1) + 1
+    hybridModelCalls += pages.slice(0, (hybridStop ?? pages.length - 1) + 1).filter((page) => page.verdict === "ambiguous").length
+
+    const pageIds = fixtures.map((fixture) => fixture.pageId ?? "?")
+    const stopAt = (stop: number | null) => (stop === null ? "none" : pageIds[stop])
+    const scores = pages.map((page, index) => `${pageIds[index]} ${page.score.score}${page.verdict === "ambiguous" ? "?" : ""}`)
+    console.log(`${bookId}: model stops at ${stopAt(modelStop)}, local+model at ${stopAt(hybridStop)} (${scores.join(", ")})`)
+    outcomes.push(...pages)
+    scoredBooks.push(pages)
+  }
+
+  const decided = outcomes.filter((page) => page.verdict !== "ambiguous")
+  const decidedCorrectly = decided.filter((page) => (page.verdict === "first") === page.reference)
+  const hybridCorrect = outcomes.filter((page) => page.hybrid === page.reference)
+  const withModel = outcomes.filter((page) => page.model !== null)
+  const modelCorrect = withModel.filter((page) => page.model === page.reference)
+  const ocrTimes = outcomes.flatMap((page) => (page.ocrMs === null ? [] : [page.ocrMs]))
+
+  console.log("")
+  console.log(`Books:                        ${books.size}`)
+  console.log(`Pages:                        ${outcomes.length} (${withModel.length} with a recorded model answer)`)
+  console.log(`Decided locally:              ${decided.length} (${percent(decided.length, outcomes.length)})`)
+  console.log(`  of which correct:           ${decidedCorrectly.length} (${percent(decidedCorrectly.length, decided.length)})`)
+  console.log(`Correct, local + model:       ${hybridCorrect.length} (${percent(hybridCorrect.length, outcomes.length)})`)
+  console.log(`Correct, model only:          ${modelCorrect.length} (${percent(modelCorrect.length, withModel.length)})`)
+  console.log(`Same first page as model:     ${sameStop} of ${books.size} books`)
+  console.log(`Model calls, model only:      ${modelCalls}`)
+  console.log(`Model calls, local + model:   ${hybridModelCalls}`)
+  console.log(`Mean OCR time per page:       ${ocrTimes.length > 0 ? `${mean(ocrTimes)} ms` : "n/a"}`)
+  sweepThresholds(scoredBooks)
+}
+
+async function main() {
+  const [first, fixtureDir, ...volumeIds] = process.argv.slice(2)
+  if (first === "record" && fixtureDir && volumeIds.length > 0) {
+    await record(fixtureDir, volumeIds)
+  } else if (first && first !== "record") {
+    await compare(first)
+  } else {
+    console.error("Usage: npm run benchmark:first-page -- [record <fixture dir> <volume id>...] | <fixture dir>")
+    process.exitCode = 1
+  }
+}
+
+main().catch((error) => {
+  console.error("Benchmark failed:", error)
+  // A tesseract worker that failed to load its language data would keep the process alive
+  process.exit(1)
+})
@@ -0,0 +1,231 @@
+import sharp from "sharp"
+
+/**
+ * Local EAN-13 barcode decoder for back-cover photos. Scans horizontal lines
+ * across the image (and vertical ones for sideways barcodes), decodes any
+ * EAN-13 symbol they cross and keeps the codes with a valid check digit.
+ * Bookland EANs (978/979 prefixes) are ISBN-13s.
+ */
+
+export interface BarcodeScanResult {
+  // The decoded EAN-13 (an ISBN-13 when it starts with 978 or 979)
+  ean: string
+  isIsbn: boolean
+  // Number of scanlines that agreed on this code
+  votes: number
+  durationMs: number
+}
+
+// Widths of the four runs of each digit, in modules. L codes start with a space,
+// R codes (the same widths) with a bar, G codes are the L codes reversed.
+const L_PATTERNS = [
+  [3, 2, 1, 1],
+  [2, 2, 2, 1],
+  [2, 1, 2, 2],
+  [1, 4, 1, 1],
+  [1, 1, 3, 2],
+  [1, 2, 3, 1],
+  [1, 1, 1, 4],
+  [1, 3, 1, 2],
+  [1, 2, 1, 3],
+  [3, 1, 1, 2],
+]
+const G_PATTERNS = L_PATTERNS.map((pattern) => [...pattern].reverse())
+
+// L/G parity of the six left-hand digits encodes the first digit
+const FIRST_DIGIT_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"]
+
+// start guard + 6 digits + middle guard + 6 digits + end guard
+const EAN13_RUNS = 3 + 24 + 5 + 24 + 3
+
+// Worst acceptable total difference between measured and expected module widths for one digit
+const MAX_DIGIT_ERROR = 1.6
+
+const SCAN_MAX_EDGE = 1400
+const SCANLINES = 48
+
+/**
+ * Checks the EAN-13 check digit.
+ * @param {string} code - 13 digits
+ * @returns {boolean} - Whether the last digit matches the weighted sum of the first twelve
+ */
+export function isValidEan13(code: string) {
+  if (!/^\d{13}$/.test(code)) return false
+
+  const sum = code
+    .slice(0, 12)
+    .split("")
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0)
+  return (10 - (sum % 10)) % 10 === Number(code[12])
+}
+
+// Converts a row of grey pixels into alternating run widths, starting with a bar (dark run)
+function toRuns(row: Uint8Array) {
+  let min = 255
+  let max = 0
+  for (const value of row) {
+    if (value < min) min = value
+    if (value > max) max = value
+  }
+  // Too little contrast for this row to cross a barcode
+  if (max - min < 60) return []
+
+  const threshold = (min + max) / 2
+  const runs: number[] = []
+  let dark = row[0] < threshold
+  let length = 0
+  let leadingSpace = true
+
+  for (const value of row) {
+    const isDark = value < threshold
+    if (isDark === dark) {
+      length++
+      continue
+    }
+    // Drop the space before the first bar so even indexes are always bars
+    if (!(leadingSpace && !dark)) runs.push(length)
+    leadingSpace = false
+    dark = isDark
+    length = 1
+  }
+  if (dark) runs.push(length)
+  return runs
+}
+
+function matchDigit(runs: number[], patterns: number[][]) {
+  const total = runs.reduce((sum, run) => sum + run, 0)
+  let best = { digit: -1, error: Infinity }
+
+  patterns.forEach((pattern, digit) => {
+    const error = runs.reduce((sum, run, index) => sum + Math.abs((run * 7) / total - pattern[index]), 0)
+    if (error < best.error) best = { digit, error }
+  })
+  return best
+}
+
+function isGuard(runs: number[], moduleWidth: number) {
+  return runs.every((run) => run / moduleWidth > 0.4 && run / moduleWidth < 2.2)
+}
+
+/**
+ * Tries to decode an EAN-13 symbol whose start guard begins at runs[start].
+ * @returns {string|null} - 13 digits with a valid check digit, or null
+ */
+function decodeAt(runs: number[], start: number) {
+  const symbol = runs.slice(start, start + EAN13_RUNS)
+  if (symbol.length < EAN13_RUNS) return null
+
+  // 95 modules in total; the guards give a first estimate of the module width
+  const moduleWidth = symbol.reduce((sum, run) => sum + run, 0) / 95
+  if (!isGuard(symbol.slice(0, 3), moduleWidth) || !isGuard(symbol.slice(27, 32), moduleWidth)) return null
+  if (!isGuard(symbol.slice(56, 59), moduleWidth)) return null
+
+  let parity = ""
+  let digits = ""
+  for (let i = 0; i < 6; i++) {
+    const digitRuns = symbol.slice(3 + i * 4, 7 + i * 4)
+    const l = matchDigit(digitRuns, L_PATTERNS)
+    const g = matchDigit(digitRuns, G_PATTERNS)
+    const best = l.error <= g.error ? { ...l, parity: "L" } : { ...g, parity: "G" }
+    if (best.error > MAX_DIGIT_ERROR) return null
+    parity += best.parity
+    digits += best.digit
+  }
+  for (let i = 0; i < 6; i++) {
+    const match = matchDigit(symbol.slice(32 + i * 4, 36 + i * 4), L_PATTERNS)
+    if (match.error > MAX_DIGIT_ERROR) return null
+    digits += match.digit
+  }
+
+  const firstDigit = FIRST_DIGIT_PARITY.indexOf(parity)
+  if (firstDigit < 0) return null
+
+  const code = `${firstDigit}${digits}`
+  return isValidEan13(code) ? code : null
+}
+
+function decodeRow(row: Uint8Array) {
+  const codes: string[] = []
+  for (const pixels of [row, Uint8Array.from(row).reverse()]) {
+    const runs = toRuns(pixels)
+    // Bars are at even indexes, so a start guard can only begin there
+    for (let start = 0; start + EAN13_RUNS <= runs.length; start += 2) {
+      const code = decodeAt(runs, start)
+      if (code) codes.push(code)
+    }
+  }
+  return codes
+}
+
+function collectVotes(lines: Uint8Array[], votes: Map<string, number>) {
+  for (const line of lines) {
+    for (const code of decodeRow(line)) {
+      votes.set(code, (votes.get(code) || 0) + 1)
+    }
+  }
+}
+
+function sampleRows(data: Buffer, width: number, height: number) {
+  const rows: Uint8Array[] = []
+  for (let line = 1; line < SCANLINES; line++) {
+    const y = Math.floor((height * line) / SCANLINES)
+    rows.push(data.subarray(y * width, (y + 1) * width))
+  }
+  return rows
+}
+
+function sampleColumns(data: Buffer, width: number, height: number) {
+  const columns: Uint8Array[] = []
+  for (let line = 1; line < SCANLINES; line++) {
+    const x = Math.floor((width * line) / SCANLINES)
+    const column = new Uint8Array(height)
+    for (let y = 0; y < height; y++) {
+      column[y] = data[y * width + x]
+    }
+    columns.push(column)
+  }
+  return columns
+}
+
+/**
+ * Looks for an EAN-13 barcode in a photo.
+ * @param {Buffer} imageBuffer - Photo in any format sharp can read
+ * @returns {BarcodeScanResult|null} - The code most scanlines agreed on, or null if none was found
+ */
+export async function scanBarcode(imageBuffer: Buffer): Promise<BarcodeScanResult | null> {
+  const started = Date.now()
+  const votes = new Map<string, number>()
+
+  try {
+    const { data, info } = await sharp(imageBuffer)
+      .rotate()
+      .grayscale()
+      .resize({ width: SCAN_MAX_EDGE, height: SCAN_MAX_EDGE, fit: "inside", withoutEnlargement: true })
+      .raw()
+      .toBuffer({ resolveWithObject: true })
+
+    collectVotes(sampleRows(data, info.width, info.height), votes)
+    // Barcodes printed sideways along the spine edge
+    if (votes.size === 0) {
+      collectVotes(sampleColumns(data, info.width, info.height), votes)
+    }
+  } catch (error) {
+    console.error("Error scanning for barcode:", error)
+    return null
+  }
+
+  const [best] = [...votes.entries()].sort((a, b) => b[1] - a[1])
+  if (!best) {
+    console.log(`No barcode found (${Date.now() - started}ms)`)
+    return null
+  }
+
+  const [ean, count] = best
+  const result = { ean, isIsbn: /^97[89]/.test(ean), votes: count, durationMs: Date.now() - started }
+  console.log("Barcode found:", result)
+  return result
+}
+
+export function isBarcodeScanEnabled() {
+  return process.env.BARCODE_SCAN !== "false"
+}
@@ -0,0 +1,289 @@
+import { randomUUID } from "crypto"
+import * as path from "path"
+import JSZip from "jszip"
+import type multer from "multer"
+import { createJob, waitForJob } from "./jobService.js"
+import type { BatchItem, ProcessBatch, ProcessOptions } from "shared"
+
+/**
+ * Processes many uploads as one batch. Each item runs as a regular job (so
+ * /api/jobs/:id and its event stream work per item), at most BATCH_CONCURRENCY
+ * at a time. Batches are kept in memory for BATCH_TTL_MS after they finish.
+ */
+
+const DEFAULT_MAX_ITEMS = 50
+const DEFAULT_MAX_UNCOMPRESSED_BYTES = 200 * 1024 * 1024
+const DEFAULT_CONCURRENCY = 2
+const DEFAULT_BATCH_TTL_MS = 24 * 60 * 60 * 1000
+
+const IMAGE_EXTENSIONS = [".jpg", ".jpeg", ".png", ".webp", ".gif", ".heic", ".heif", ".tif", ".tiff", ".avif"]
+
+export interface BatchUpload {
+  name: string
+  buffer: Buffer
+}
+
+// The upload went over a batch limit; reported as a bad request
+export class BatchLimitError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "BatchLimitError"
+  }
+}
+
+const batches = new Map<string, ProcessBatch>()
+
+function readPositiveInt(value: string | undefined, fallback: number) {
+  const number = Number(value)
+  return Number.isInteger(number) && number > 0 ? number : fallback
+}
+
+export function getBatchLimits() {
+  return {
+    maxItems: readPositiveInt(process.env.BATCH_MAX_ITEMS, DEFAULT_MAX_ITEMS),
+    maxUncompressedBytes: readPositiveInt(process.env.BATCH_MAX_UNCOMPRESSED_BYTES, DEFAULT_MAX_UNCOMPRESSED_BYTES),
+    concurrency: readPositiveInt(process.env.BATCH_CONCURRENCY, DEFAULT_CONCURRENCY),
+  }
+}
+
+export function isZipUpload(file: { originalname: string; mimetype: string; buffer: Buffer }) {
+  // Local file header signature "PK\x03\x04"
+  const hasZipSignature = file.buffer.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))
+  return hasZipSignature || file.mimetype.includes("zip") || file.originalname.toLowerCase().endsWith(".zip")
+}
+
+/**
+ * Multer storage that keeps files in memory, like multer.memoryStorage(), but fails as soon as
+ * a request's files add up to more than maxBytes instead of buffering all of them first.
+ * @param {number} maxBytes - Most bytes all of a request's files may take together
+ * @returns {multer.StorageEngine} - Storage for a multer instance
+ */
+export function createBatchUploadStorage(maxBytes: number): multer.StorageEngine {
+  // Bytes received so far per request
+  const received = new WeakMap<object, number>()
+
+  return {
+    _handleFile(req, file, callback) {
+      const chunks: Buffer[] = []
+      let failed = false
+      const fail = (error: Error) => {
+        if (failed) return
+        failed = true
+        // Drain the rest of the part so the request can finish
+        file.stream.resume()
+        callback(error)
+      }
+
+      file.stream.on("data", (chunk: Buffer) => {
+        if (failed) return
+        const total = (received.get(req) ?? 0) + chunk.length
+        received.set(req, total)
+        if (total > maxBytes) {
+          chunks.length = 0
+          fail(new BatchLimitError(`Batch upload exceeds the limit of ${maxBytes} bytes`))
+          return
+        }
+        chunks.push(chunk)
+      })
+      file.stream.on("error", fail)
+      file.stream.on("end", () => {
+        if (failed) return
+        const buffer = Buffer.concat(chunks)
+        callback(null, { buffer, size: buffer.length })
+      })
+    },
+
+    _removeFile(_req, file, callback) {
+      delete (file as Partial<Express.Multer.File>).buffer
+      callback(null)
+    },
+  }
+}
+
+// Reads an entry while counting bytes, so a zip bomb is stopped instead of filling memory
+async function readEntry(entry: JSZip.JSZipObject, remainingBytes: number) {
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    const stream = entry.nodeStream("nodebuffer")
+
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length
+      if (size > remainingBytes) {
+        stream.removeAllListeners("data")
+        stream.pause()
+        reject(new Error("Archive exceeds the decompressed size limit"))
+        return
+      }
+      chunks.push(chunk)
+    })
+    stream.on("error", reject)
+    stream.on("end", () => resolve(Buffer.concat(chunks)))
+  })
+}
+
+/**
+ * Extracts the images from a zip archive, enforcing the batch limits.
+ * @param {Buffer} archive - Zip file contents
+ * @param {number} maxItems - Most images that may still be added to the batch
+ * @param {number} maxBytes - Most decompressed bytes that may still be added to the batch
+ * @returns {Array} - Image entries, in archive order
+ */
+export async function extractZipImages(archive: Buffer, maxItems: number, maxBytes: number): Promise<BatchUpload[]> {
+  let zip: JSZip
+  try {
+    zip = await JSZip.loadAsync(archive)
+  } catch (error) {
+    throw new Error(`Could not read the zip archive: ${error instanceof Error ? error.message : "Unknown error"}`)
+  }
+
+  const entries = Object.values(zip.files).filter((entry) => {
+    const name = entry.name
+    // Skip folders, macOS resource forks and hidden files
+    if (entry.dir || name.startsWith("__MACOSX/") || path.basename(name).startsWith(".")) return false
+    return IMAGE_EXTENSIONS.includes(path.extname(name).toLowerCase())
+  })
+
+  if (entries.length > maxItems) {
+    throw new Error(`Archive contains ${entries.length} images, more than the limit of ${maxItems}`)
+  }
+
+  const uploads: BatchUpload[] = []
+  let remainingBytes = maxBytes
+  for (const entry of entries) {
+    const buffer = await readEntry(entry, remainingBytes)
+    remainingBytes -= buffer.length
+    uploads.push({ name: entry.name, buffer })
+  }
+  return uploads
+}
+
+function touch(batch: ProcessBatch) {
+  batch.updatedAt = new Date().toISOString()
+}
+
+function updateBatchStatus(batch: ProcessBatch) {
+  const counts = { queued: 0, running: 0, completed: 0, failed: 0 }
+  batch.items.forEach((item) => counts[item.status]++)
+  batch.counts = counts
+
+  if (counts.queued + counts.running > 0) {
+    batch.status = counts.queued === batch.items.length ? "queued" : "running"
+  } else {
+    batch.status = counts.failed === batch.items.length ? "failed" : "completed"
+  }
+  touch(batch)
+}
+
+async function runItem(batch: ProcessBatch, item: BatchItem, upload: BatchUpload, options: ProcessOptions) {
+  const job = createJob(upload.buffer, {
+    ...options,
+    // Jobs wait for a free slot, so the item only counts as running once its job starts
+    onEvent: (event) => {
+      if (item.status === "queued") {
+        item.status = "running"
+        updateBatchStatus(batch)
+      }
+      options.onEvent?.(event)
+    },
+  })
+  item.jobId = job.id
+
+  try {
+    item.result = await waitForJob(job.id)
+    item.status = "completed"
+  } catch (error) {
+    item.status = "failed"
+    item.error = error instanceof Error ? error.message : "Unknown error"
+  }
+  updateBatchStatus(batch)
+}
+
+/**
+ * Starts processing a batch of images in the background.
+ * @param {Array} uploads - Images to process
+ * @param {ProcessOptions} options - Pipeline options applied to every item
+ * @returns {ProcessBatch} - The new batch
+ */
+export function createBatch(uploads: BatchUpload[], options: ProcessOptions = {}): ProcessBatch {
+  const now = new Date().toISOString()
+  const batch: ProcessBatch = {
+    id: randomUUID(),
+    status: "queued",
+    items: uploads.map((upload, index) => ({
+      index,
+      name: upload.name,
+      status: "queued",
+      jobId: null,
+      result: null,
+      error: null,
+    })),
+    counts: { queued: uploads.length, running: 0, completed: 0, failed: 0 },
+    createdAt: now,
+    updatedAt: now,
+  }
+  batches.set(batch.id, batch)
+
+  // Each worker takes the next queued item until none are left
+  let next = 0
+  const worker = async () => {
+    while (next < uploads.length) {
+      const index = next++
+      await runItem(batch, batch.items[index], uploads[index], options)
+    }
+  }
+
+  const workers = Array.from({ length: Math.min(getBatchLimits().concurrency, uploads.length) }, worker)
+  Promise.all(workers).then(() => {
+    console.log(`Batch ${batch.id} finished:`, batch.counts)
+    const timer = setTimeout(() => batches.delete(batch.id), readPositiveInt(process.env.BATCH_TTL_MS, DEFAULT_BATCH_TTL_MS))
+    timer.unref()
+  })
+
+  console.log(`Created batch ${batch.id} with ${uploads.length} items`)
+  return batch
+}
+
+export function getBatch(id: string): ProcessBatch | null {
+  return batches.get(id) ?? null
+}
+
+const CSV_COLUMNS = ["index", "name", "status", "title", "author", "isbn", "volumeId", "identifiedBy", "language", "error", "text"]
+
+function csvCell(value: unknown) {
+  let text = value === null || value === undefined ? "" : String(value)
+  // Spreadsheets run cells starting with these as formulas; a leading quote keeps them text
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Flattens a batch into one row per item for export.
+ */
+export function getBatchRows(batch: ProcessBatch) {
+  return batch.items.map((item) => {
+    const result = item.result
+    const bookInfo = result?.bookInfo
+    return {
+      index: item.index,
+      name: item.name,
+      status: item.status,
+      title: bookInfo?.title ?? null,
+      author: bookInfo?.author ?? null,
+      isbn: bookInfo?.isbn ?? null,
+      volumeId: bookInfo?.id ?? null,
+      identifiedBy: result?.identifiedBy ?? null,
+      language: result?.language ?? null,
+      error: item.error,
+      text: result?.text ?? null,
+    }
+  })
+}
+
+export function exportBatchCsv(batch: ProcessBatch) {
+  const lines = [CSV_COLUMNS.join(",")]
+  for (const row of getBatchRows(batch)) {
+    lines.push(CSV_COLUMNS.map((column) => csvCell(row[column])).join(","))
+  }
+  return lines.join("\r\n") + "\r\n"
+}
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict"
+import { afterEach, before, describe, it } from "node:test"
+import { fetchBookInfo } from "./bookInfoService.js"
+import { isUpstreamError, setFakeMetadataFailure, setFakeMetadataResponse } from "./metadataProvider.js"
+
+const FAKE_BOOK = {
+  title: "The Fake Book",
+  author: "Jane Doe",
+  isbn: null,
+  isFiction: true,
+  language: "en",
+  confidence: { title: 1, author: 1, isbn: 0, isFiction: 0.5 },
+}
+
+describe("fetchBookInfo", () => {
+  before(() => {
+    process.env.METADATA_HTTP = "fake"
+    process.env.GOOGLE_BOOKS_MAX_RETRIES = "0"
+  })
+
+  afterEach(() => {
+    delete process.env.METADATA_PROVIDERS
+    setFakeMetadataFailure("googleBooks", null)
+    setFakeMetadataFailure("openLibrary", null)
+    setFakeMetadataResponse("openLibrary", "/search.json", null)
+  })
+
+  it("selects the book the first provider finds", async () => {
+    const match = await fetchBookInfo(FAKE_BOOK)
+    assert.equal(match.selected, true)
+    assert.equal(match.bookInfo.id, "FAKEVOLUME01")
+    assert.equal(match.bookInfo.source, "googleBooks")
+    assert.equal(match.bookInfo.verification?.verdict, "match")
+  })
+
+  it("asks the providers in METADATA_PROVIDERS order", async () => {
+    process.env.METADATA_PROVIDERS = "openLibrary,googleBooks"
+    const match = await fetchBookInfo(FAKE_BOOK)
+    assert.equal(match.selected, true)
+    assert.equal(match.bookInfo.source, "openLibrary")
+  })
+
+  it("falls back to the next provider when one is down", async () => {
+    setFakeMetadataFailure("googleBooks", 503)
+    const match = await fetchBookInfo(FAKE_BOOK)
+    assert.equal(match.selected, true)
+    assert.equal(match.bookInfo.source, "openLibrary")
+  })
+
+  it("fails with the provider's error when no provider answered", async () => {
+    setFakeMetadataFailure("googleBooks", 503)
+    setFakeMetadataFailure("openLibrary", 500)
+    await assert.rejects(fetchBookInfo(FAKE_BOOK), (error) => isUpstreamError(error))
+  })
+
+  it("skips Open Library results it can't read", async () => {
+    process.env.METADATA_PROVIDERS = "openLibrary"
+    setFakeMetadataResponse("openLibrary", "/search.json", { docs: [null, "OL0000001W", { key: "/works/OL0000002W", title: 42 }] })
+    const match = await fetchBookInfo(FAKE_BOOK)
+    assert.equal(match.candidates.length, 1)
+    assert.equal(match.candidates[0].id, "OL0000002W")
+    assert.equal(match.candidates[0].bookInfo.title, "Unknown Title")
+    assert.equal(match.selected, false)
+  })
+
+  it("carries on with the cover's details when no provider has the book", async () => {
+    const match = await fetchBookInfo({ ...FAKE_BOOK, title: "A Book Nobody Has", author: "Nobody" })
+    assert.equal(match.selected, true)
+    assert.deepEqual(match.candidates, [])
+    assert.equal(match.bookInfo.title, "A Book Nobody Has")
+    assert.equal(match.bookInfo.id, null)
+  })
+})
@@ -1,152 +1,525 @@
-import axios from "axios"
-
-export function improvedFictionDetection(categories, description, title) {
-  // First check categories using the existing method
-  const categoryResult = isFictionCategory(categories);
-  
-  // If we have a clear signal from categories, use that
-  if (categories && categories.length > 0) {
-    return categoryResult;
-  }
-  
-  // If no clear signal from categories, analyze description and title
-  let fictionSignals = 0;
-  let nonfictionSignals = 0;
-  
-  // Check description for signals if available
-  if (description) {
-    const desc = description.toLowerCase();
-    
-    // Fiction signals in description
-    const fictionWords = [
-      "novel", "fiction", "story", "adventure", "fantasy", 
-      "protagonist", "character", "hero", "magical", "romance",
-      "thriller", "mystery", "sci-fi", "science fiction", "dystopian",
-      "journey", "tale", "legend", "epic", "saga"
-    ];
-    
-    // Non-fiction signals in description
-    const nonfictionWords = [
-      "history", "guide", "analysis", "research", "biography", 
-      "autobiography", "memoir", "reference", "textbook", "examination",
-      "study", "report", "handbook", "manual", "investigation",
-      "philosophy", "theory", "argument", "thesis", "exploration",
-      "account", "chronicle", "journal", "essay", "documentary"
-    ];
-    
-    // Count signals
-    fictionWords.forEach(word => {
-      if (desc.includes(word)) fictionSignals++;
-    });
-    
-    nonfictionWords.forEach(word => {
-      if (desc.includes(word)) nonfictionSignals++;
-    });
-  }
-  
-  // Check title for signals
-  if (title) {
-    const lowTitle = title.toLowerCase();
-    
-    // Look for non-fiction title patterns
-    if (/^(how to|the art of|introduction to|guide to|principles of|history of|the science of)/i.test(lowTitle)) {
-      nonfictionSignals += 2;
-    }
-    
-    // Title length can be a weak signal (fiction titles tend to be shorter)
-    if (title.split(" ").length <= 3) {
-      fictionSignals += 0.5;
+import { getMetadataProvider, getMetadataProviders, getProviderForId, isUpstreamError } from "./metadataProvider.js"
+import type { MetadataProvider, MetadataRecord } from "./metadataProvider.js"
+import { getIsbnFields, normalizeIsbn, parseIsbn, toIsbn10 } from "./isbn.js"
+import { classifyFiction, toIsFiction } from "./fictionClassifier.js"
+import { mapCategories, mergeGenres } from "./subjectTaxonomy.js"
+import { compareAuthors, compareTitles, parseAuthorName, verifyMatch } from "./bookVerification.js"
+import { clusterEditions, getWorkKey, hasPreview, selectPreviewEdition, toEditionSummary } from "./editions.js"
+import type { FictionClassifierInput } from "./fictionClassifier.js"
+import type { BookIdentification } from "./identificationSchema.js"
+import type { BookCandidate, BookMatch, IndustryIdentifier, Isbn13, ProviderBookInfo } from "shared"
+
+const DEFAULT_CANDIDATE_LIMIT = 5
+const DEFAULT_MATCH_THRESHOLD = 0.6
+// Search results to look through for other editions of the chosen book
+const EDITION_SEARCH_LIMIT = 20
+
+export function getCandidateLimit() {
+  const limit = Number(process.env.MATCH_CANDIDATE_LIMIT)
+  return Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_CANDIDATE_LIMIT
+}
+
+export function getMatchThreshold() {
+  const threshold = Number(process.env.MATCH_SCORE_THRESHOLD)
+  return Number.isFinite(threshold) && threshold >= 0 && threshold <= 1 ? threshold : DEFAULT_MATCH_THRESHOLD
+}
+
+// A candidate is used without asking only when it scores well and is verified as the cover's book
+function isAutoSelectable(candidate: BookCandidate) {
+  return candidate.score >= getMatchThreshold() && candidate.verification.verdict === "match"
+}
+
+/**
+ * Finds the volumes that best match the details read off the cover, asking each
+ * metadata provider in fallback order until one has a candidate good enough to auto-select.
+ * @param {Object} bookDetails - Title, author and ISBN extracted from the cover
+ * @returns {Array} - Candidates ranked by match score, best first; empty if nothing was found.
+ *   Rejects with a provider's error when nothing was found because a provider didn't answer
+ */
+export async function findBookCandidates(bookDetails): Promise<BookCandidate[]> {
+  console.log("Finding book candidates for:", bookDetails)
+
+  let candidates: BookCandidate[] = []
+  const upstreamErrors: unknown[] = []
+  for (const provider of getMetadataProviders()) {
+    let found: BookCandidate[]
+    try {
+      found = await findProviderCandidates(provider, bookDetails)
+    } catch (error) {
+      // The next provider may still have the book
+      console.error(`${provider.name} did not answer:`, error)
+      upstreamErrors.push(error)
+      continue
     }
+    console.log(`${provider.name} returned ${found.length} candidates`)
+
+    // Stable sort keeps earlier providers ahead of later ones between equal scores
+    candidates = [...candidates, ...found].sort((a, b) => b.score - a.score)
+    if (candidates.length > 0 && isAutoSelectable(candidates[0])) break
   }
-  
-  // Make decision based on signals
-  if (fictionSignals > nonfictionSignals) {
-    return true;
-  } else if (nonfictionSignals > fictionSignals) {
-    return false;
-  } else {
-    // Default to fiction if we still can't tell
-    return true;
+
+  // "Not found" only when every provider answered
+  if (candidates.length === 0 && upstreamErrors.length > 0) throw upstreamErrors[0]
+  return candidates.slice(0, getCandidateLimit())
+}
+
+async function findProviderCandidates(provider: MetadataProvider, bookDetails): Promise<BookCandidate[]> {
+  const candidates = await searchProvider(provider, bookDetails)
+
+  // A free-text search can rank other books first; before giving up, ask for the title and author by field
+  if (bookDetails.title && !candidates.some((candidate) => candidate.verification.verdict !== "mismatch")) {
+    console.log(`No ${provider.name} result matches the cover, retrying with a title/author search`)
+    const fielded = await searchByTitleAuthor(provider, bookDetails)
+    const seen = new Set(candidates.map((candidate) => candidate.id))
+    return [...candidates, ...fielded.filter((candidate) => !seen.has(candidate.id))].sort((a, b) => b.score - a.score)
   }
+  return candidates
 }
 
-// Update the fetchBookInfo function to use our improved fiction detection
-export async function fetchBookInfo(bookDetails) {
-  try {
-    console.log("Fetching book info for:", bookDetails)
-    
-    // If we have an ISBN, use that for most accurate results
-    if (bookDetails.isbn) {
-      try {
-        return await fetchBookByISBN(bookDetails.isbn)
-      } catch (error) {
-        console.log("ISBN search failed, falling back to title/author search")
-      }
+async function searchProvider(provider: MetadataProvider, bookDetails): Promise<BookCandidate[]> {
+  // If we have an ISBN, use that for most accurate results
+  if (normalizeIsbn(bookDetails.isbn)) {
+    try {
+      return await fetchBookByISBN(bookDetails.isbn, bookDetails, provider)
+    } catch (error) {
+      if (isUpstreamError(error)) throw error
+      console.log(`${provider.name} ISBN search failed, falling back to title/author search`)
     }
-    
-    // If no ISBN or ISBN search failed, use title and author
-    if (bookDetails.title) {
-      let searchQuery = bookDetails.title
-      if (bookDetails.author && bookDetails.author !== "Unknown") {
-        searchQuery += ` ${bookDetails.author}`
-      }
-      
-      const bookInfo = await searchBookAPI(searchQuery)
-      
-      // Use our improved fiction detection
-      if (bookInfo) {
-        bookInfo.isFiction = improvedFictionDetection(
-          bookInfo.categories || [], 
-          bookInfo.description || "", 
-          bookInfo.title || ""
-        );
-      }
-      
-      return bookInfo
+  }
+
+  // If no ISBN or ISBN search failed, use title and author
+  if (bookDetails.title) {
+    let searchQuery = bookDetails.title
+    if (bookDetails.author && bookDetails.author !== "Unknown") {
+      searchQuery += ` ${bookDetails.author}`
+    }
+
+    try {
+      return await searchBookAPI(searchQuery, bookDetails, provider)
+    } catch (error) {
+      if (isUpstreamError(error)) throw error
+      console.error(`${provider.name} title/author search failed:`, error)
     }
-    
-    throw new Error("Insufficient information to search for book")
+  }
+
+  return []
+}
+
+// Second strategy: the title without its subtitle, and only the author's surname, which
+// survives initials and name order. Not restricted to the cover's language, in case the
+// language was misread or the provider has the book under another one.
+async function searchByTitleAuthor(provider: MetadataProvider, bookDetails): Promise<BookCandidate[]> {
+  const title = bookDetails.title.split(/\s*[:;]\s+/)[0]
+  const hasAuthor = bookDetails.author && bookDetails.author !== "Unknown"
+  const surname = hasAuthor ? parseAuthorName(bookDetails.author).surname : null
+
+  try {
+    const records = await provider.searchByTitleAuthor(title, surname || null, getCandidateLimit())
+    return rankCandidates(records, bookDetails)
   } catch (error) {
-    console.error("Error in fetchBookInfo:", error)
-    
-    // If all API calls fail, return the original details with defaults
-    return {
+    if (isUpstreamError(error)) throw error
+    console.error(`${provider.name} fielded title/author search failed:`, error)
+    return []
+  }
+}
+
+/**
+ * Looks up the photographed book and decides whether the best match is good enough to use.
+ * @param {Object} bookDetails - Title, author and ISBN extracted from the cover
+ * @returns {Object} - The best candidate's book info (or a stub when nothing was found), the ranked
+ *   candidates, and whether the best one is a verified match scoring above the auto-select threshold.
+ *   Rejects with the provider's error when the providers didn't answer, so an outage isn't
+ *   mistaken for a book they don't have
+ */
+export async function fetchBookInfo(bookDetails): Promise<BookMatch> {
+  const candidates = await findBookCandidates(bookDetails)
+  if (candidates.length === 0) {
+    console.log("No provider has the book, carrying on with the cover's details")
+    // Nothing to choose from, so carry on with what the cover told us
+    return { bookInfo: createStubBookInfo(bookDetails), candidates: [], selected: true }
+  }
+
+  const best = candidates[0]
+  const threshold = getMatchThreshold()
+  console.log(`Best candidate ${best.id} scored ${best.score} (threshold ${threshold}):`, best.reasons)
+
+  console.log(`Best candidate verification: ${best.verification.verdict}`, best.verification.reasons)
+
+  // A high score isn't enough when the title or author isn't confirmed, e.g. "Dune Messiah" for "Dune"
+  const selected = isAutoSelectable(best)
+  // Only fill in the chosen book; unselected candidates just need enough to pick from
+  const bookInfo = selected
+    ? classifyBookInfo(
+        await findPreviewEdition(await supplementBookInfo(best.bookInfo), bookDetails.language),
+        getLlmVote(bookDetails),
+      )
+    : best.bookInfo
+  return { bookInfo: { ...bookInfo, verification: best.verification }, candidates, selected }
+}
+
+// The identify stage's fiction guess, as a vote for the classifier
+function getLlmVote(bookDetails): FictionClassifierInput["llmVote"] {
+  if (typeof bookDetails?.isFiction !== "boolean") return null
+  return { isFiction: bookDetails.isFiction, confidence: bookDetails.confidence?.isFiction ?? 0.5 }
+}
+
+/**
+ * (Re)classifies a book as fiction, non-fiction or unknown from its categories, description and title.
+ * @param {Object} bookInfo - Book information
+ * @param {Object} llmVote - The identify stage's guess, if the book was identified from its cover
+ * @returns {Object} - The book info with `fiction` (label, confidence, signals) and `isFiction`
+ *   (null when unknown) set
+ */
+export function classifyBookInfo<T extends Omit<ProviderBookInfo, "isFiction">>(bookInfo: T, llmVote: FictionClassifierInput["llmVote"] = null) {
+  const fiction = classifyFiction({
+    title: bookInfo.title,
+    description: bookInfo.description,
+    categories: bookInfo.categories || [],
+    bisacCodes: (bookInfo.genres || []).flatMap((genre) => (genre.code ? [genre.code] : [])),
+    llmVote,
+    // The language of the metadata, and so of the description being read
+    language: bookInfo.language,
+  })
+  return { ...bookInfo, isFiction: toIsFiction(fiction), fiction }
+}
+
+/**
+ * Builds book info from the cover details alone, for when no volume could be found.
+ */
+export function createStubBookInfo(bookDetails): ProviderBookInfo {
+  // If all API calls fail, return the original details; only the cover's own guess says what kind of book it is
+  const isbnFields = getIsbnFields(bookDetails.isbn)
+  return classifyBookInfo(
+    {
       title: bookDetails.title || "Unknown Title",
+      subtitle: null,
       author: bookDetails.author || "Unknown Author",
-      isFiction: bookDetails.isFiction !== undefined ? bookDetails.isFiction : true,
-      isbn: bookDetails.isbn || null,
+      authors: bookDetails.author ? [bookDetails.author] : [],
+      publisher: null,
+      publishedDate: null,
+      pageCount: null,
+      language: null,
+      ...isbnFields,
+      industryIdentifiers: toIndustryIdentifiers(isbnFields.isbn ? [isbnFields.isbn] : []),
       description: null,
+      thumbnails: { small: null, medium: null, large: null },
       previewLink: null,
-      id: null
+      viewability: "unknown",
+      id: null,
+      openLibraryId: null,
+      source: null,
+      sources: [],
+      categories: [],
+      accessInfo: {},
+    },
+    getLlmVote(bookDetails),
+  )
+}
+
+function toIndustryIdentifiers(isbns: Isbn13[], otherIdentifiers: IndustryIdentifier[] = []): IndustryIdentifier[] {
+  return [
+    ...isbns.flatMap((isbn) => {
+      const isbn10 = toIsbn10(isbn)
+      return [
+        { type: "ISBN_13", identifier: isbn },
+        ...(isbn10 ? [{ type: "ISBN_10", identifier: isbn10 }] : []),
+      ]
+    }),
+    ...otherIdentifiers,
+  ]
+}
+
+function getOtherIdentifiers(bookInfo): IndustryIdentifier[] {
+  return (bookInfo.industryIdentifiers || []).filter((id) => id.type !== "ISBN_13" && id.type !== "ISBN_10")
+}
+
+function formatAuthors(authors: string[]) {
+  return authors.length > 0 ? authors.join(", ") : "Unknown"
+}
+
+/**
+ * Maps a provider's record onto the book info shape used by the pipeline.
+ * @param {MetadataRecord} record - Book from a metadata provider
+ * @returns {Object} - Book information; `id` is the Google Books volume id, or null for books
+ *   Google Books doesn't know, which have no preview to capture
+ */
+function toBookInfo(record: MetadataRecord): ProviderBookInfo {
+  const genres = getRecordGenres(record)
+  return classifyBookInfo({
+    title: record.title ?? "Unknown Title",
+    subtitle: record.subtitle,
+    author: formatAuthors(record.authors),
+    authors: record.authors,
+    publisher: record.publisher,
+    publishedDate: record.publishedDate,
+    pageCount: record.pageCount,
+    language: record.language,
+    ...getIsbnFields(record.isbns[0]),
+    description: record.description,
+    thumbnails: record.thumbnails,
+    previewLink: record.previewLink,
+    viewability: record.viewability,
+    // Add these fields for preview extraction
+    id: record.source === "googleBooks" ? record.id : null,
+    openLibraryId: record.source === "openLibrary" ? record.id : null,
+    source: record.source,
+    sources: [record.source],
+    accessInfo: record.accessInfo,
+    categories: record.subjects,
+    genre: genres[0] ?? null,
+    genres,
+    industryIdentifiers: toIndustryIdentifiers(record.isbns, record.otherIdentifiers)
+  })
+}
+
+// Open Library subjects are free-form, Google Books categories BISAC headings
+function getRecordGenres(record: MetadataRecord) {
+  return mapCategories(record.subjects, record.source === "openLibrary")
+}
+
+function uniqueIgnoringCase(values: string[]) {
+  const seen = new Set<string>()
+  return values.filter((value) => {
+    const key = value.trim().toLowerCase()
+    if (!key || seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function uniqueIdentifiers(identifiers: IndustryIdentifier[]) {
+  const seen = new Set<string>()
+  return identifiers.filter((id) => {
+    const key = `${id.type}:${id.identifier}`
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Combines what several providers know about the same book. The primary record's
+ * title, authors, ids and preview win; missing details (description, publisher,
+ * cover...) are filled in, and categories and identifiers are unioned.
+ * @param {Object} bookInfo - Book info from the provider that matched the cover
+ * @param {MetadataRecord[]} supplements - Records for the same book from other providers
+ * @returns {Object} - Merged book information, with every contributing provider in `sources`
+ */
+export function mergeBookInfo(bookInfo: ProviderBookInfo, supplements: MetadataRecord[]): ProviderBookInfo {
+  if (supplements.length === 0) return bookInfo
+
+  const isbns: Isbn13[] = [
+    ...new Set([
+      ...(bookInfo.industryIdentifiers || []).flatMap((id) => normalizeIsbn(id.identifier) ?? []),
+      ...supplements.flatMap((record) => record.isbns),
+    ]),
+  ]
+  const categories = uniqueIgnoringCase([...(bookInfo.categories || []), ...supplements.flatMap((record) => record.subjects)])
+  const otherIdentifiers = uniqueIdentifiers([
+    ...getOtherIdentifiers(bookInfo),
+    ...supplements.flatMap((record) => record.otherIdentifiers),
+  ])
+  const description = bookInfo.description || supplements.find((record) => record.description)?.description || null
+  // The first value any provider has, primary first
+  const fill = <K extends "subtitle" | "publisher" | "publishedDate" | "pageCount" | "language">(key: K) =>
+    bookInfo[key] ?? supplements.find((record) => record[key] !== null)?.[key] ?? null
+  const hasCover = (thumbnails) => !!(thumbnails && (thumbnails.small || thumbnails.medium || thumbnails.large))
+  // The preview comes from a supplement only when the primary provider has none
+  const previewRecord = bookInfo.previewLink ? null : supplements.find((record) => record.previewLink)
+  const openLibraryRecord = supplements.find((record) => record.source === "openLibrary")
+  const genres = mergeGenres(bookInfo.genres || [], ...supplements.map(getRecordGenres))
+
+  return classifyBookInfo({
+    ...bookInfo,
+    subtitle: fill("subtitle"),
+    publisher: fill("publisher"),
+    publishedDate: fill("publishedDate"),
+    pageCount: fill("pageCount"),
+    language: fill("language"),
+    description,
+    thumbnails: hasCover(bookInfo.thumbnails)
+      ? bookInfo.thumbnails
+      : supplements.find((record) => hasCover(record.thumbnails))?.thumbnails ?? bookInfo.thumbnails,
+    previewLink: previewRecord ? previewRecord.previewLink : bookInfo.previewLink,
+    viewability: previewRecord ? previewRecord.viewability : bookInfo.viewability,
+    ...getIsbnFields(bookInfo.isbn || isbns[0]),
+    openLibraryId: bookInfo.openLibraryId || openLibraryRecord?.id || null,
+    sources: [...new Set([...(bookInfo.sources || [bookInfo.source]), ...supplements.map((record) => record.source)])],
+    categories,
+    genre: bookInfo.genre ?? genres[0] ?? null,
+    genres,
+    industryIdentifiers: toIndustryIdentifiers(isbns, otherIdentifiers),
+  })
+}
+
+/**
+ * Looks the chosen book up in the other metadata providers and merges in what they add.
+ * Failures are logged and ignored; the primary provider's data is always enough to carry on.
+ * @param {Object} bookInfo - Book info from the provider that matched the cover
+ * @returns {Object} - Merged book information
+ */
+export async function supplementBookInfo(bookInfo: ProviderBookInfo) {
+  const providers = getMetadataProviders().filter((provider) => provider.name !== bookInfo.source)
+  // Searching and scoring by the first author; co-authors only dilute the match
+  const author = bookInfo.authors?.[0] ?? bookInfo.author
+  const identity = { title: bookInfo.title, author, isbn: bookInfo.isbn }
+  const isbn = normalizeIsbn(bookInfo.isbn)
+
+  const supplements: MetadataRecord[] = []
+  // Search results can leave out details (Open Library has no descriptions there)
+  const ownId = bookInfo.source === "openLibrary" ? bookInfo.openLibraryId : bookInfo.id
+  if (!bookInfo.description && bookInfo.source && ownId) {
+    try {
+      supplements.push(await getMetadataProvider(bookInfo.source).fetchById(ownId))
+    } catch (error) {
+      console.error(`Could not fetch details from ${bookInfo.source}:`, error)
+    }
+  }
+
+  for (const provider of providers) {
+    try {
+      const records = isbn
+        ? await provider.searchByIsbn(isbn, 1)
+        : await provider.search(`${bookInfo.title} ${author}`, 5)
+
+      // Only merge a record that is clearly the same book
+      const sameBook = records.find((record) => {
+        const candidate = toBookInfo(record)
+        return scoreCandidate(candidate, identity).score >= getMatchThreshold() && verifyMatch(candidate, identity).verdict === "match"
+      })
+      if (sameBook) {
+        supplements.push(sameBook.description ? sameBook : await provider.fetchById(sameBook.id))
+      }
+    } catch (error) {
+      console.error(`Could not supplement book info from ${provider.name}:`, error)
     }
   }
+
+  if (supplements.length > 0) {
+    console.log(`Merged book info from ${supplements.map((record) => record.source).join(", ")}`)
+  }
+  return mergeBookInfo(bookInfo, supplements)
 }
 
-export async function fetchBookByISBN(isbn) {
+/**
+ * Finds another edition of the same work with a Google Books preview, for when the
+ * photographed edition has none; only Google Books previews can be captured. The book
+ * info keeps describing the photographed edition, with the other one as `previewEdition`.
+ * @param {Object} bookInfo - The chosen book
+ * @param {string} language - Language of the photographed cover; editions in it are preferred.
+ *   Defaults to the chosen book's language
+ * @returns {Object} - The book info with `previewEdition` set; null when its own preview
+ *   will do or no edition has one
+ */
+export async function findPreviewEdition(bookInfo: ProviderBookInfo, language: string | null = null): Promise<ProviderBookInfo> {
+  const googleBooks = getMetadataProviders().find((provider) => provider.name === "googleBooks")
+  if ((bookInfo.id && hasPreview(bookInfo.viewability)) || !googleBooks || !bookInfo.title) {
+    return { ...bookInfo, previewEdition: null }
+  }
+
+  const author = bookInfo.authors?.[0] ?? bookInfo.author
   try {
-    const response = await axios.get(`https://www.googleapis.com/books/v1/volumes?q=isbn:${isbn}`)
-    const data = response.data
-
-    if (data.items && data.items.length > 0) {
-      const book = data.items[0].volumeInfo
-
-      return {
-        title: book.title,
-        author: book.authors ? book.authors[0] : "Unknown",
-        isFiction: isFictionCategory(book.categories),
-        isbn: isbn,
-        description: book.description || null,
-        previewLink: book.previewLink || null,
-        // Add these fields for preview extraction
-        id: data.items[0].id,
-        accessInfo: data.items[0].accessInfo || {},
-        categories: book.categories || []
-      }
+    const records = await googleBooks.search(`${bookInfo.title} ${author}`, EDITION_SEARCH_LIMIT)
+    const workKey = getWorkKey(bookInfo.title, author)
+    const editions = clusterEditions(records).find((cluster) => cluster.key === workKey)?.records || []
+    console.log(`Found ${editions.length} editions of "${bookInfo.title}"`)
+
+    const edition = selectPreviewEdition(
+      editions.filter((record) => record.id !== bookInfo.id),
+      language ?? bookInfo.language,
+    )
+    if (edition) {
+      console.log(`Using the preview of edition ${edition.id} (${edition.viewability})`)
+      return { ...bookInfo, previewEdition: toEditionSummary(edition) }
+    }
+  } catch (error) {
+    console.error("Could not search for other editions:", error)
+  }
+  return { ...bookInfo, previewEdition: null }
+}
+
+/**
+ * Scores how well a volume matches the details read off the cover. Titles and authors are
+ * compared the way verifyMatch compares them, so the score and the verdict agree.
+ * @param {Object} bookInfo - Candidate volume
+ * @param {Object} bookDetails - Title, author and ISBN extracted from the cover
+ * @returns {Object} - Score between 0 and 1, and the reasons behind it
+ */
+export function scoreCandidate(bookInfo, bookDetails) {
+  const reasons: string[] = []
+
+  // Compare as ISBN-13s, so an ISBN-10 on the cover matches the volume's ISBN-13
+  const extractedIsbn = normalizeIsbn(bookDetails.isbn)
+  if (extractedIsbn) {
+    const volumeIsbns = (bookInfo.industryIdentifiers || []).map((id) => normalizeIsbn(id.identifier))
+    if (volumeIsbns.includes(extractedIsbn)) {
+      return { score: 1, reasons: [`ISBN ${extractedIsbn} matches`] }
+    }
+    reasons.push(`ISBN ${extractedIsbn} not among the volume's identifiers`)
+  }
+
+  const titleScore = bookDetails.title ? compareTitles(bookDetails.title, bookInfo.title) : 0
+  if (bookDetails.title) {
+    reasons.push(
+      titleScore === 1 ? "title matches" : `title similarity ${titleScore.toFixed(2)} ("${bookInfo.title}")`,
+    )
+  } else {
+    reasons.push("no title on the cover")
+  }
+
+  // Without an author on the cover, the title has to carry the score on its own
+  let score = titleScore
+  const hasAuthor = bookDetails.author && bookDetails.author !== "Unknown"
+  if (hasAuthor) {
+    // Covers often name only one of several authors, so compare against the closest one
+    const authors: string[] = bookInfo.authors?.length ? bookInfo.authors : [bookInfo.author].filter(Boolean)
+    const authorScore = compareAuthors(bookDetails.author, authors)
+    reasons.push(
+      authorScore === 1 ? "author matches" : `author similarity ${authorScore.toFixed(2)} ("${authors.join(", ")}")`,
+    )
+    score = titleScore * 0.6 + authorScore * 0.4
+  } else {
+    reasons.push("no author on the cover")
+  }
+
+  return { score: Math.round(score * 100) / 100, reasons }
+}
+
+function rankCandidates(records: MetadataRecord[], bookDetails): BookCandidate[] {
+  return records
+    .map((record) => {
+      const bookInfo = toBookInfo(record)
+      const { score, reasons } = scoreCandidate(bookInfo, bookDetails)
+      return { id: record.id, score, reasons, verification: verifyMatch(bookInfo, bookDetails), bookInfo }
+    })
+    // Stable sort keeps the provider's relevance order between equal scores
+    .sort((a, b) => b.score - a.score)
+    .slice(0, getCandidateLimit())
+}
+
+/**
+ * Looks up volumes by ISBN
+ * @param {string} isbn - ISBN read off the cover, in any notation
+ * @param {Object} bookDetails - Details to score the results against, defaults to the ISBN alone
+ * @param {MetadataProvider} provider - Where to look, defaults to the first provider in fallback order
+ * @returns {Array} - Ranked candidates
+ */
+export async function fetchBookByISBN(isbn: string, bookDetails: Partial<BookIdentification> = { isbn }, provider = getMetadataProviders()[0]) {
+  try {
+    const parsed = parseIsbn(isbn)
+    if (!parsed.valid) {
+      throw new Error(`Invalid ISBN: ${parsed.reason}`)
+    }
+
+    const records = await provider.searchByIsbn(parsed.isbn13, getCandidateLimit())
+
+    if (records.length > 0) {
+      return rankCandidates(records, bookDetails)
     }
 
     throw new Error("Book not found with ISBN: " + isbn)
   } catch (error) {
-    console.error("Error in Google Books API call:", error)
+    console.error(`Error in ${provider.name} ISBN lookup:`, error)
     throw error
   }
 }
@@ -154,81 +527,44 @@ export async function fetchBookByISBN(isbn) {
 /**
  * Searches for book information using a general query
  * @param {string} query - Search query (title, author, etc.)
- * @returns {Object} - Book information
+ * @param {Object} bookDetails - Details to score the results against; their `language` restricts the search
+ * @param {MetadataProvider} provider - Where to look, defaults to the first provider in fallback order
+ * @returns {Array} - Ranked candidates
  */
-export async function searchBookAPI(query) {
+export async function searchBookAPI(query: string, bookDetails: Partial<BookIdentification> = {}, provider = getMetadataProviders()[0]) {
+  // A query that is just an ISBN gets an exact lookup instead of a full-text search
+  const isbn = normalizeIsbn(query)
+  if (isbn) {
+    return fetchBookByISBN(isbn, { isbn, ...bookDetails }, provider)
+  }
+
   try {
-    const response = await axios.get(`https://www.googleapis.com/books/v1/volumes?q=${encodeURIComponent(query)}`)
-    const data = response.data
-
-    if (data.items && data.items.length > 0) {
-      const book = data.items[0].volumeInfo
-
-      return {
-        title: book.title,
-        author: book.authors ? book.authors[0] : "Unknown",
-        isFiction: isFictionCategory(book.categories),
-        isbn: book.industryIdentifiers
-          ? book.industryIdentifiers.find((id) => id.type === "ISBN_13")?.identifier ||
-            book.industryIdentifiers.find((id) => id.type === "ISBN_10")?.identifier ||
-            null
-          : null,
-        description: book.description || null,
-        previewLink: book.previewLink || null,
-        // Add these fields for preview extraction
-        id: data.items[0].id,
-        accessInfo: data.items[0].accessInfo || {},
-        categories: book.categories || []
-      }
+    // Restricted to the cover's language, so a translated cover finds its own edition first
+    const records = await provider.search(query, getCandidateLimit(), bookDetails.language ?? null)
+
+    if (records.length > 0) {
+      return rankCandidates(records, bookDetails)
     }
 
     throw new Error("Book not found with query: " + query)
   } catch (error) {
-    console.error("Error in Google Books API search:", error)
+    console.error(`Error in ${provider.name} search:`, error)
     throw error
   }
 }
 
-export function isFictionCategory(categories) {
-  if (!categories || categories.length === 0) {
-    return true // Default to fiction if no categories
-  }
-
-  const nonFictionKeywords = [
-    "biography",
-    "history",
-    "science",
-    "technology",
-    "business",
-    "self-help",
-    "cooking",
-    "travel",
-    "reference",
-    "education",
-    "philosophy",
-    "religion",
-    "politics",
-    "economics",
-    "medicine",
-    "law",
-    "mathematics",
-    "computers",
-    "nature",
-    "art history",
-  ]
-
-  // Check if any category contains non-fiction keywords
-  for (const category of categories) {
-    const lowerCategory = category.toLowerCase()
-    if (nonFictionKeywords.some((keyword) => lowerCategory.includes(keyword))) {
-      return false
-    }
-
-    // Explicit check for "non-fiction" or "nonfiction"
-    if (lowerCategory.includes("non-fiction") || lowerCategory.includes("nonfiction")) {
-      return false
-    }
+/**
+ * Fetches a single volume, e.g. one the caller picked from the candidates
+ * @param {string} volumeId - Google Books volume id or Open Library work id
+ * @returns {Object} - Book information, supplemented from the other providers
+ */
+export async function fetchBookById(volumeId) {
+  const provider = getProviderForId(volumeId)
+  try {
+    const record = await provider.fetchById(volumeId)
+    return await findPreviewEdition(await supplementBookInfo(toBookInfo(record)))
+  } catch (error) {
+    console.error(`Error in ${provider.name} volume lookup:`, error)
+    throw error
   }
-
-  return true
-}
\ No newline at end of file
+}
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict"
+import { afterEach, before, describe, it } from "node:test"
+import sharp from "sharp"
+import { processBookCover } from "./bookProcessor.js"
+import { isUpstreamError, setFakeMetadataFailure } from "./metadataProvider.js"
+import { setFakeResponse } from "./visionProvider.js"
+import type { PipelineEvent } from "shared"
+
+// Bar/space widths of each digit's L code; G codes are the widths reversed, R codes start with a bar
+const EAN_DIGITS = ["3211", "2221", "2122", "1411", "1132", "1231", "1114", "1312", "1213", "3112"]
+const EAN_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"]
+
+// Draws an EAN-13 barcode, 3 pixels per module, on a white back cover
+async function drawBarcode(ean: string) {
+  const modules: boolean[] = []
+  const runs = (widths: string, firstIsBar: boolean) =>
+    [...widths].forEach((width, index) => modules.push(...Array(Number(width)).fill(firstIsBar === (index % 2 === 0))))
+
+  runs("111", true)
+  // The first digit is only encoded in the L/G parity of the next six
+  for (const [index, digit] of [...ean.slice(1, 7)].entries()) {
+    const widths = EAN_DIGITS[Number(digit)]
+    runs(EAN_PARITY[Number(ean[0])][index] === "G" ? [...widths].reverse().join("") : widths, false)
+  }
+  runs("11111", false)
+  for (const digit of ean.slice(7)) runs(EAN_DIGITS[Number(digit)], true)
+  runs("111", true)
+
+  const quiet = 12
+  const width = (modules.length + quiet * 2) * 3
+  const height = 240
+  const pixels = Buffer.alloc(width * height, 255)
+  for (let y = 60; y < height - 60; y++) {
+    modules.forEach((bar, index) => {
+      if (bar) pixels.fill(0, y * width + (quiet + index) * 3, y * width + (quiet + index + 1) * 3)
+    })
+  }
+  return sharp(pixels, { raw: { width, height, channels: 1 } }).png().toBuffer()
+}
+
+// Runs the pipeline offline: the fake vision provider identifies "The Fake Book" by Jane Doe,
+// which the fake metadata providers know. Open Library has no Google Books preview, so the
+// screenshot stage is skipped and no browser is needed.
+describe("processBookCover", () => {
+  let cover: Buffer
+
+  before(async () => {
+    process.env.VISION_PROVIDER = "fake"
+    process.env.METADATA_HTTP = "fake"
+    process.env.METADATA_PROVIDERS = "openLibrary"
+    process.env.CACHE_DISABLED = "true"
+    process.env.BARCODE_SCAN = "false"
+    process.env.BROWSER_POOL_WARM = "false"
+    cover = await sharp({ create: { width: 400, height: 600, channels: 3, background: "#8a2be2" } }).jpeg().toBuffer()
+  })
+
+  afterEach(() => {
+    setFakeResponse("validate", null)
+    setFakeMetadataFailure("openLibrary", null)
+  })
+
+  it("identifies the cover and looks the book up", async () => {
+    const events: PipelineEvent[] = []
+    const result = await processBookCover(cover, { onEvent: (event) => events.push(event) })
+
+    assert.equal(result.identifiedBy, "vision")
+    assert.equal(result.bookInfo?.title, "The Fake Book")
+    assert.equal(result.bookInfo?.author, "Jane Doe")
+    assert.equal(result.bookInfo?.id, null)
+    assert.equal((result.preview as { reason: string }).reason, "noVolume")
+
+    const finished = events.flatMap((event) => (event.type === "stageFinished" ? [event.stage] : []))
+    assert.deepEqual(finished, ["preprocess", "validate", "identify", "fetchInfo", "checkPreview", "screenshot"])
+  })
+
+  it("reads the cover when the barcode's lookup fails", async () => {
+    process.env.BARCODE_SCAN = "true"
+    setFakeMetadataFailure("openLibrary", 503)
+    const events: PipelineEvent[] = []
+    try {
+      const result = await processBookCover(await drawBarcode("9780000000002"), {
+        onEvent: (event) => {
+          events.push(event)
+          // The outage is over by the time the cover is looked up
+          if (event.type === "stageStarted" && event.stage === "validate") setFakeMetadataFailure("openLibrary", null)
+        },
+      })
+
+      const scanned = events.find((event) => event.type === "stageFinished" && event.stage === "scanBarcode")
+      assert.deepEqual(scanned?.type === "stageFinished" && scanned.data, { isbn: "9780000000002", matched: false })
+      assert.equal(result.identifiedBy, "vision")
+      assert.equal(result.bookInfo?.title, "The Fake Book")
+    } finally {
+      process.env.BARCODE_SCAN = "false"
+    }
+  })
+
+  it("stops when the image isn't a book cover", async () => {
+    setFakeResponse("validate", "no")
+    const result = await processBookCover(cover)
+    assert.equal(result.isError, true)
+    assert.equal(result.bookInfo, undefined)
+  })
+
+  it("fails when the metadata providers are down", async () => {
+    setFakeMetadataFailure("openLibrary", 503)
+    await assert.rejects(processBookCover(cover), (error) => isUpstreamError(error))
+  })
+})
@@ -1,8 +1,58 @@
-import { generateText } from "ai"
-import { openai } from "@ai-sdk/openai"
+import { generateObject, generateText, NoObjectGeneratedError } from "ai"
+import type { CoreMessage } from "ai"
 import axios from "axios"
-import { fetchBookInfo } from "./bookInfoService.js"
-import puppeteer from 'puppeteer-core';
+import { fetchBookById, fetchBookInfo } from "./bookInfoService.js"
+import { bookIdentificationSchema, salvageIdentification } from "./identificationSchema.js"
+import type { BookIdentification } from "./identificationSchema.js"
+import { createOcrWorkerForLanguage, recognizePageText } from "./ocrService.js"
+import { preprocessImage } from "./imagePreprocessor.js"
+import { isBarcodeScanEnabled, scanBarcode } from "./barcodeScanner.js"
+import { parseIsbn } from "./isbn.js"
+import { checkPreviewAvailability } from "./previewAvailability.js"
+import { getLanguageName } from "./language.js"
+import { acquireBrowserContext } from "./browserPool.js"
+import type { BrowserLease } from "./browserPool.js"
+import { createFirstPageDetector } from "./firstPageDetector.js"
+import type { FirstPageDecision } from "./firstPageDetector.js"
+import { findVisiblePageImage, getVisiblePageId, isPageImageCaptureEnabled, watchPageImages } from "./pageImageCapture.js"
+import {
+  describePageSelector,
+  getPageSelectorKey,
+  getSectionName,
+  getStartPageId,
+  isContinuousSelector,
+  MAX_SELECTED_PAGES,
+} from "./pageSelector.js"
+import { stitchPages } from "./pageStitcher.js"
+import type { PageText } from "./pageStitcher.js"
+import type { PageImage } from "./pageImageCapture.js"
+import type { Page } from "puppeteer-core"
+import type { BarcodeScanResult } from "./barcodeScanner.js"
+import type { ImageTransform } from "./imagePreprocessor.js"
+import {
+  computeImageFingerprint,
+  getCachedIdentity,
+  getCachedVolume,
+  isCacheEnabled,
+  setCachedIdentity,
+  setCachedVolume,
+} from "./cacheService.js"
+import { getProviderConfigErrors, getStageModel, VISION_STAGES } from "./visionProvider.js"
+import type {
+  BookCandidate,
+  BookMatch,
+  CacheStatus,
+  ExtractionMode,
+  PipelineEventHandler,
+  CapturedPage,
+  PageSelector,
+  PipelineStage,
+  PreviewAvailability,
+  ProcessOptions,
+  ProcessResult,
+  ProviderBookInfo,
+  TextTranslation,
+} from "shared"
 import * as os from 'os';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -10,66 +60,341 @@ import * as path from 'path';
 interface Screenshot {
   index: number;
   base64Imagee: string;
+  // Missing on entries cached before page images were captured, which are all JPEG screenshots
+  mimeType?: string;
+  // The page image the viewer downloaded, or a screenshot of the viewport when there was none
+  source?: CaptureSource;
+  // Google Books page id (PA1, PP3...) of the page in view, when the viewer showed it
+  pageId?: string | null;
 }
 
-// Check if OpenAI API key is available
-if (!process.env.OPENAI_API_KEY) {
-  console.error("OPENAI_API_KEY environment variable is not set!")
+type CaptureSource = "pageImage" | "screenshot";
+
+// What the image cache remembers about a cover
+interface IdentityCacheEntry {
+  bookDetails: BookIdentification;
+  bookInfo: ProviderBookInfo;
+}
+
+// What the volume cache remembers about a book's preview
+interface VolumeCacheEntry {
+  screenshots: Screenshot[];
+  texts: Partial<Record<ExtractionMode, string>>;
+}
+
+// Check that the configured vision providers can be used
+for (const reason of getProviderConfigErrors()) {
+  console.error(reason)
+}
+
+const EXTRACTION_MODES: ExtractionMode[] = ["llm", "ocr"]
+
+async function fingerprintImage(imageBuffer: Buffer) {
+  try {
+    return await computeImageFingerprint(imageBuffer)
+  } catch (error) {
+    // An image sharp can't decode just isn't cached
+    console.error("Error fingerprinting image:", error)
+    return null
+  }
+}
+
+/**
+ * Picks the text extraction mode: the request's choice, then TEXT_EXTRACTION_MODE, then "llm".
+ * @param {string} requested - Mode asked for by the caller, if any
+ * @returns {ExtractionMode} - Mode to use
+ */
+export function resolveExtractionMode(requested?: string | null): ExtractionMode {
+  for (const candidate of [requested, process.env.TEXT_EXTRACTION_MODE]) {
+    if (!candidate) continue
+
+    const mode = candidate.trim().toLowerCase() as ExtractionMode
+    if (!EXTRACTION_MODES.includes(mode)) {
+      throw new Error(`Invalid extraction mode "${candidate}", expected one of: ${EXTRACTION_MODES.join(", ")}`)
+    }
+    return mode
+  }
+  return "llm"
+}
+
+/**
+ * Lists configuration problems for the vision stages a run will use.
+ * OCR extraction does not need the analyze-stage provider, a run with a
+ * caller-chosen volume skips validation and identification, and only runs with a
+ * target language translate.
+ */
+export function getPipelineConfigErrors(extractionMode: ExtractionMode, hasVolumeId = false, translates = false) {
+  const stages = VISION_STAGES.filter((stage) => {
+    if (stage === "analyze") return extractionMode !== "ocr"
+    if (stage === "validate" || stage === "identify") return !hasVolumeId
+    if (stage === "translate") return translates
+    return true
+  })
+  return getProviderConfigErrors(stages)
 }
 
-export async function processBookCover(imageBuffer) {
+export async function processBookCover(imageBuffer: Buffer | null, options: ProcessOptions = {}): Promise<ProcessResult> {
   try {
     console.log("Starting book cover processing")
 
-    // Explicitly check for OpenAI API key
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OpenAI API key is missing. Please set the OPENAI_API_KEY environment variable.")
+    const extractionMode = resolveExtractionMode(options.extractionMode)
+    const emit = options.onEvent || (() => {})
+    const reportStage = (stage: PipelineStage, data?: Record<string, unknown>) =>
+      emit(data ? { type: "stageFinished", stage, data } : { type: "stageStarted", stage })
+    console.log("Text extraction mode:", extractionMode)
+
+    // Explicitly check that every stage has a usable provider
+    const configErrors = getPipelineConfigErrors(extractionMode, !!options.volumeId, !!options.targetLanguage)
+    if (configErrors.length > 0) {
+      throw new Error(configErrors.join(" "))
     }
 
-    // Step 1: Validate that the image is a book cover using GPT-4 Vision
-    console.log("Validating book cover...")
-    const isValidBookCover = await validateBookCover(imageBuffer)
+    // Step 0: Normalize the upload (orientation, size, format) before any model sees it
+    let preprocessing: ImageTransform | null = null
+    // Barcodes decode best at full resolution, so scanning uses the upload as received
+    const originalBuffer = imageBuffer
+    if (imageBuffer) {
+      reportStage("preprocess")
+      const preprocessed = await preprocessImage(imageBuffer, { autoCrop: options.autoCrop })
+      imageBuffer = preprocessed.buffer
+      preprocessing = preprocessed.transform
+      reportStage("preprocess", { transform: preprocessing })
+    }
 
-    if (!isValidBookCover) {
-      return {
-        text: "The image you provided doesn't appear to be a book cover. Please take another photo making sure the book cover is clearly visible.",
-        isError: true
+    // Read from the cache unless the caller asked for a fresh run; fresh results are still written back
+    const readCache = isCacheEnabled() && !options.bypassCache
+    const cacheStatus: CacheStatus = {
+      identity: isCacheEnabled() ? (readCache ? "miss" : "bypass") : "disabled",
+      volume: isCacheEnabled() ? (readCache ? "miss" : "bypass") : "disabled",
+    }
+    const fingerprint = imageBuffer && isCacheEnabled() ? await fingerprintImage(imageBuffer) : null
+    const cachedIdentity =
+      readCache && fingerprint && !options.volumeId ? await getCachedIdentity<IdentityCacheEntry>(fingerprint) : null
+
+    // Step 0b: A barcode on the back cover gives us the ISBN without asking a model
+    let barcode: BarcodeScanResult | null = null
+    let barcodeMatch: BookMatch | null = null
+    if (originalBuffer && !options.volumeId && !cachedIdentity && isBarcodeScanEnabled()) {
+      reportStage("scanBarcode")
+      barcode = await scanBarcode(originalBuffer)
+      if (barcode?.isIsbn) {
+        try {
+          barcodeMatch = await fetchBookInfo(createBarcodeIdentification(barcode.ean))
+        } catch (error) {
+          // The cover can still identify the book, and its lookup may find a provider that answers
+          console.error("Could not look up the barcode's ISBN, reading the cover instead:", error)
+          barcodeMatch = null
+        }
+        // A stub means no metadata provider knows the ISBN; fall back to reading the cover
+        if (barcodeMatch && (!barcodeMatch.selected || !(barcodeMatch.bookInfo.id || barcodeMatch.bookInfo.openLibraryId))) barcodeMatch = null
       }
+      reportStage("scanBarcode", { isbn: barcode?.isIsbn ? barcode.ean : null, matched: !!barcodeMatch })
     }
 
-    // Step 2: Identify the book from the cover
-    console.log("Identifying book from cover...")
-    const bookDetails = await identifyBook(imageBuffer)
-    console.log("Book details extracted:", bookDetails)
+    let bookInfo
+    let candidates: BookCandidate[] = []
+    // Language the cover is written in, as read by the identify stage
+    let coverLanguage: string | null = null
+    let identifiedBy: "volumeId" | "cache" | "barcode" | "vision"
+    if (options.volumeId) {
+      // The caller already chose a volume, so there is nothing to validate or identify
+      console.log("Using volume chosen by the caller:", options.volumeId)
+      reportStage("fetchInfo")
+      bookInfo = await fetchBookById(options.volumeId)
+      identifiedBy = "volumeId"
+    } else if (cachedIdentity) {
+      // Seen this cover before, so skip straight to the book it was identified as
+      console.log("Image cache hit for fingerprint:", fingerprint)
+      cacheStatus.identity = "hit"
+      reportStage("fetchInfo")
+      bookInfo = cachedIdentity.bookInfo
+      coverLanguage = cachedIdentity.bookDetails.language ?? null
+      identifiedBy = "cache"
+    } else if (barcodeMatch) {
+      console.log("Book identified from barcode:", barcode?.ean)
+      reportStage("fetchInfo")
+      bookInfo = barcodeMatch.bookInfo
+      candidates = barcodeMatch.candidates
+      identifiedBy = "barcode"
+
+      if (fingerprint) {
+        await setCachedIdentity<IdentityCacheEntry>(fingerprint, {
+          bookDetails: createBarcodeIdentification(barcode!.ean),
+          bookInfo,
+        })
+      }
+    } else {
+      // Step 1: Validate that the image is a book cover using GPT-4 Vision
+      console.log("Validating book cover...")
+      reportStage("validate")
+      const isValidBookCover = await validateBookCover(imageBuffer)
+      reportStage("validate", { isValidBookCover })
+
+      if (!isValidBookCover) {
+        return {
+          text: "The image you provided doesn't appear to be a book cover. Please take another photo making sure the book cover is clearly visible.",
+          isError: true
+        }
+      }
 
-    // Step 3: Fetch comprehensive book info using the extracted details
-    console.log("Fetching book information...")
-    let bookInfo = await fetchBookInfo(bookDetails)
-    console.log("Book identified:", bookInfo.title, "by", bookInfo.author)
-    console.log("Book classification:", bookInfo.isFiction ? "Fiction" : "Non-Fiction")
+      // Step 2: Identify the book from the cover
+      console.log("Identifying book from cover...")
+      reportStage("identify")
+      const bookDetails = await identifyBook(imageBuffer)
+      console.log("Book details extracted:", bookDetails)
+      reportStage("identify", {
+        title: bookDetails.title ?? null,
+        author: bookDetails.author ?? null,
+        language: bookDetails.language ?? null,
+        bookDetails,
+      })
+      coverLanguage = bookDetails.language ?? null
+
+      // Step 3: Fetch comprehensive book info using the extracted details
+      console.log("Fetching book information...")
+      reportStage("fetchInfo")
+      const match = await fetchBookInfo(bookDetails)
+
+      if (!match.selected) {
+        // Not confident enough to pick one; let the caller choose and re-run with its volume id
+        console.log("No candidate scored above the threshold, returning candidates")
+        reportStage("fetchInfo", { volumeId: null, candidates: match.candidates })
+        return {
+          text: createCandidateSelectionMessage(bookDetails, match.candidates),
+          needsSelection: true,
+          bookDetails,
+          candidates: match.candidates,
+          extractionMode
+        }
+      }
+
+      bookInfo = match.bookInfo
+      candidates = match.candidates
+      identifiedBy = "vision"
+
+      if (fingerprint) {
+        await setCachedIdentity<IdentityCacheEntry>(fingerprint, { bookDetails, bookInfo })
+      }
+    }
 
-    // Step 4: Extract screenshots using puppeteer
+    reportStage("fetchInfo", {
+      volumeId: bookInfo.id,
+      openLibraryId: bookInfo.openLibraryId ?? null,
+      sources: bookInfo.sources ?? [],
+      title: bookInfo.title,
+      author: bookInfo.author,
+      isFiction: bookInfo.isFiction,
+      fiction: bookInfo.fiction ?? null,
+      previewEdition: bookInfo.previewEdition ?? null,
+      verification: bookInfo.verification ?? null,
+      candidates,
+      cached: cacheStatus.identity === "hit",
+    })
+    console.log("Book identified:", bookInfo.title, "by", bookInfo.author)
+    console.log("Book classification:", bookInfo.fiction ?? (bookInfo.isFiction ? "Fiction" : "Non-Fiction"))
+
+    // Step 4: Check there is a preview before paying for a browser session
+    reportStage("checkPreview")
+    const preview = checkPreviewAvailability(bookInfo)
+    reportStage("checkPreview", { ...preview })
+    // Another edition's preview when the photographed one has none
+    const previewVolumeId = preview.volumeId
+    // The pages read are the preview edition's, which may be in another language than the cover
+    const language = bookInfo.previewEdition?.language ?? coverLanguage ?? bookInfo.language ?? null
+
+    // Step 5: Extract screenshots using puppeteer
     console.log("Extracting screenshots...")
-    const startPage = bookInfo.isFiction ? 2 : 1
-    const screenshotResult = await extractBookScreenshots(bookInfo.id, bookInfo.isFiction)
+    const pageSelector: PageSelector = options.pageSelector ?? { kind: "auto" }
+    // Pages chosen by the caller are cached apart from the automatic choice
+    const volumeCacheKey =
+      previewVolumeId && (pageSelector.kind === "auto" ? previewVolumeId : `${previewVolumeId}:${getPageSelectorKey(pageSelector)}`)
+    const cachedVolume = readCache && volumeCacheKey ? await getCachedVolume<VolumeCacheEntry>(volumeCacheKey) : null
+    reportStage("screenshot")
+    let screenshotResult
+    if (cachedVolume && cachedVolume.screenshots.length > 0) {
+      console.log("Volume cache hit for:", previewVolumeId)
+      cacheStatus.volume = "hit"
+      screenshotResult = {
+        success: true,
+        screenshots: cachedVolume.screenshots,
+        message: `Loaded ${cachedVolume.screenshots.length} screenshots from cache`
+      }
+    } else if (preview.available && previewVolumeId) {
+      screenshotResult = await extractBookScreenshots(previewVolumeId, bookInfo.isFiction, emit, pageSelector, language)
+    } else {
+      console.log("No preview to capture, skipping screenshots:", preview.message)
+      screenshotResult = { success: false, screenshots: [], message: preview.message }
+    }
+    // How many of the pages are the viewer's own page images rather than viewport screenshots
+    const capturedPageImages = screenshotResult.screenshots.filter((screenshot) => screenshot.source === "pageImage").length
+    const pages: CapturedPage[] = screenshotResult.screenshots.map((screenshot: Screenshot) => ({
+      pageId: screenshot.pageId ?? null,
+      source: screenshot.source ?? "screenshot",
+    }))
+    reportStage("screenshot", {
+      capturedScreenshots: screenshotResult.screenshots.length,
+      capturedPageImages,
+      pages,
+      cached: cacheStatus.volume === "hit",
+    })
     
-    // Step 5: Analyze the screenshots to extract text
-    let extractedText = ""
-    if (screenshotResult.success && screenshotResult.screenshots.length > 0) {
+    // Step 6: Analyze the screenshots to extract text
+    let extractedText = cachedVolume?.texts[extractionMode] || ""
+    if (!extractedText && screenshotResult.success && screenshotResult.screenshots.length > 0) {
       console.log("Analyzing screenshots to extract text...")
-      extractedText = await analyzeScreenshots(screenshotResult.screenshots, bookInfo)
+      reportStage("analyze")
+      extractedText = await analyzeScreenshots(
+        screenshotResult.screenshots,
+        bookInfo,
+        extractionMode,
+        language,
+        isContinuousSelector(pageSelector),
+      )
+      reportStage("analyze", { text: extractedText, language })
+
+      if (volumeCacheKey && isCacheEnabled()) {
+        await setCachedVolume<VolumeCacheEntry>(volumeCacheKey, {
+          screenshots: screenshotResult.screenshots,
+          texts: { ...(cachedVolume?.texts || {}), ...(extractedText ? { [extractionMode]: extractedText } : {}) },
+        })
+      }
+    }
+
+    // Step 7: Translate the text when the caller asked for another language
+    let translation: TextTranslation | null = null
+    if (extractedText && options.targetLanguage && options.targetLanguage !== language) {
+      reportStage("translate")
+      translation = await translateText(extractedText, options.targetLanguage, language)
+      reportStage("translate", { language: options.targetLanguage, translated: !!translation })
     }
 
     // Create a clean result with just the required information
     console.log("Processing complete, returning result")
     return { 
-      text: extractedText || createFallbackPreviewMessage(bookInfo),
-      url: `https://books.google.com/books?id=${bookInfo.id}&newbks=0&lpg=PP1&pg=PA${startPage}&output=embed`,
+      text: extractedText || createFallbackPreviewMessage(bookInfo, preview, pageSelector),
+      url: preview.available && previewVolumeId
+        ? `https://books.google.com/books?id=${previewVolumeId}&newbks=0&lpg=PP1&pg=${pages.find((page) => page.pageId)?.pageId ?? getDefaultPageId(bookInfo, pageSelector)}&output=embed`
+        : bookInfo.previewLink,
       bookInfo: {
         ...bookInfo,
-        pageType: bookInfo.isFiction ? "second" : "first"
+        // Only meaningful for the automatic choice
+        pageType: pageSelector.kind === "auto" ? getPageType(bookInfo.isFiction) : null
       },
-      capturedScreenshots: screenshotResult.screenshots.length
+      preview,
+      language,
+      translation,
+      // Whether the looked-up volume is the book on the cover; null when the caller chose it
+      verification: bookInfo.verification ?? null,
+      capturedScreenshots: screenshotResult.screenshots.length,
+      capturedPageImages,
+      pageSelector,
+      // Preview page ids (PA/PP) of the captured pages, in order
+      pages,
+      extractionMode,
+      cache: cacheStatus,
+      preprocessing,
+      identifiedBy,
+      barcode
     }
   } catch (error) {
     console.error("Error in processBookCover:", error)
@@ -82,11 +407,10 @@ async function validateBookCover(imageBuffer) {
     // Ensure we have a valid base64 string with proper formatting for OpenAI API
     const base64Image = imageBuffer.toString("base64")
 
-    console.log("Calling OpenAI API to validate book cover...")
-    console.log("OpenAI API Key available:", !!process.env.OPENAI_API_KEY)
+    console.log("Calling vision model to validate book cover...")
 
     const { text } = await generateText({
-      model: openai("gpt-4o-mini"),
+      model: getStageModel("validate"),
       messages: [
         {
           role: "user",
@@ -113,41 +437,93 @@ async function validateBookCover(imageBuffer) {
   }
 }
 
-async function identifyBook(imageBuffer) {
+const MAX_IDENTIFY_ATTEMPTS = 3
+
+// Book details for an ISBN decoded from a barcode, where only the ISBN is known
+function createBarcodeIdentification(isbn: string): BookIdentification {
+  return {
+    title: null,
+    author: null,
+    isbn,
+    isFiction: null,
+    language: null,
+    confidence: { title: 0, author: 0, isbn: 1, isFiction: 0 },
+  }
+}
+
+/**
+ * Replaces the ISBN the model read off the cover with its normalized ISBN-13. ISBNs that
+ * fail validation (misread digits, wrong check digit) are dropped so the lookup falls
+ * back to title and author instead of searching for a book that doesn't exist.
+ */
+function withNormalizedIsbn(bookDetails: BookIdentification): BookIdentification {
+  if (!bookDetails.isbn) return bookDetails
+
+  const parsed = parseIsbn(bookDetails.isbn)
+  if (!parsed.valid) {
+    console.warn(`Ignoring ISBN from the cover: ${parsed.reason}`)
+    return { ...bookDetails, isbn: null, confidence: { ...bookDetails.confidence, isbn: 0 } }
+  }
+  return { ...bookDetails, isbn: parsed.isbn13 }
+}
+
+async function identifyBook(imageBuffer): Promise<BookIdentification> {
   try {
-    // Ensure we have a valid base64 string with proper formatting for OpenAI API
+    // Ensure we have a valid base64 string with proper formatting for the vision API
     const base64Image = imageBuffer.toString("base64")
 
-    // Use GPT-4 Vision to extract book details from the cover
-    const { text } = await generateText({
-      model: openai("gpt-4o-mini"),
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: "Extract the following information from this book cover in JSON format: title, author, ISBN (if visible), and whether it appears to be fiction or non-fiction. If you cannot determine any field, use null for that value.",
-            },
-            {
-              type: "image",
-              image: base64Image,
-            },
-          ],
-        },
-      ],
-    })
+    const messages: CoreMessage[] = [
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: "Extract the following information from this book cover: title, author, ISBN (if visible), whether it appears to be fiction or non-fiction, and the language the cover is written in as an ISO 639-1 code (e.g. \"en\", \"fr\"). Give the title and author as printed, without translating them. If you cannot determine any field, use null for that value. For each field except the language, give a confidence between 0 and 1.",
+          },
+          {
+            type: "image",
+            image: base64Image,
+          },
+        ],
+      },
+    ]
+
+    // Use the vision model to extract book details, re-prompting when the output doesn't match the schema
+    for (let attempt = 1; attempt <= MAX_IDENTIFY_ATTEMPTS; attempt++) {
+      try {
+        const { object } = await generateObject({
+          model: getStageModel("identify"),
+          schema: bookIdentificationSchema,
+          schemaName: "BookIdentification",
+          messages,
+        })
 
-    // Extract the JSON part from the response
-    const jsonMatch = text.match(/\{[\s\S]*\}/)
-    if (!jsonMatch) {
-      throw new Error("Could not extract book information from the image")
+        console.log("Extracted book details:", object)
+        return withNormalizedIsbn(object)
+      } catch (error) {
+        if (!NoObjectGeneratedError.isInstance(error)) {
+          throw error
+        }
+
+        // Code fences or trailing prose around otherwise valid JSON don't need another call
+        const salvaged = salvageIdentification(error.text)
+        if (salvaged) {
+          console.log("Recovered book details from unstructured output:", salvaged)
+          return withNormalizedIsbn(salvaged)
+        }
+
+        console.warn(`Invalid identification output (attempt ${attempt}/${MAX_IDENTIFY_ATTEMPTS}):`, error.cause)
+        messages.push(
+          { role: "assistant", content: error.text || "" },
+          {
+            role: "user",
+            content: `That response was not valid (${error.cause instanceof Error ? error.cause.message : error.message}). Respond again with only a JSON object with the fields title, author, isbn, isFiction, language and confidence.`,
+          },
+        )
+      }
     }
 
-    const bookDetails = JSON.parse(jsonMatch[0])
-    console.log("Extracted book details:", bookDetails)
-    
-    return bookDetails
+    throw new Error(`Could not extract book information from the image after ${MAX_IDENTIFY_ATTEMPTS} attempts`)
   } catch (error) {
     console.error("Error identifying book:", error)
     throw new Error(
@@ -156,46 +532,49 @@ async function identifyBook(imageBuffer) {
   }
 }
 
-async function analyzeScreenshots(screenshots, bookInfo) {
+/**
+ * Extracts the captured pages' text. Consecutive pages (stitch) are joined into one passage
+ * with page markers; otherwise each page gets a section of its own.
+ */
+async function analyzeScreenshots(
+  screenshots,
+  bookInfo,
+  extractionMode: ExtractionMode = "llm",
+  language: string | null = null,
+  stitch = false,
+) {
   try {
-    console.log(`Analyzing ${screenshots.length} screenshots to extract text...`)
+    console.log(`Analyzing ${screenshots.length} screenshots to extract text using ${extractionMode}...`)
     
-    let combinedText = ""
+    const pageTexts: PageText[] = []
+    // One tesseract worker is shared by all pages of a run
+    const ocrWorker = extractionMode === "ocr" ? await createOcrWorkerForLanguage(language) : null
     
-    for (let i = 0; i < screenshots.length; i++) {
-      const screenshot = screenshots[i]
-      console.log(`Analyzing screenshot ${i + 1}/${screenshots.length}...`)
-      
-      try {
-        const base64Image = `data:image/jpeg;base64,${screenshot.base64Imagee}`;
+    try {
+      for (let i = 0; i < screenshots.length; i++) {
+        const screenshot = screenshots[i]
+        console.log(`Analyzing screenshot ${i + 1}/${screenshots.length}...`)
         
-        // Use GPT-4o to extract text from the screenshot
-        const { text } = await generateText({
-          model: openai("gpt-4o-mini"),
-          messages: [
-            {
-              role: "user",
-              content: [
-                {
-                  type: "text",
-                  text: "Extract all the text from this book page image, maintaining paragraph structure. Only return the text content exactly as it appears, with no additional commentary.",
-                },
-                {
-                  type: "image",
-                  image: base64Image,
-                },
-              ],
-            },
-          ],
-        })
-         
-        // Add the extracted text to our combined text
-        combinedText += `\n--- Screenshot ${i + 1} ---\n\n${text.trim()}\n\n`
-      } catch (error) {
-        console.error(`Error analyzing screenshot ${i + 1}:`, error)
+        try {
+          const text = ocrWorker
+            ? await recognizePageText(screenshot.base64Imagee, ocrWorker)
+            : await extractTextWithModel(screenshot.base64Imagee, language, screenshot.mimeType)
+           
+          const label = screenshot.pageId ? `Page ${screenshot.pageId}` : `Screenshot ${i + 1}`
+          pageTexts.push({ label, text: text.trim() })
+        } catch (error) {
+          console.error(`Error analyzing screenshot ${i + 1}:`, error)
+        }
+      }
+    } finally {
+      if (ocrWorker) {
+        await ocrWorker.terminate()
       }
     }
     
+    const combinedText = stitch
+      ? stitchPages(pageTexts, [bookInfo.title, bookInfo.author].filter(Boolean))
+      : pageTexts.map((page) => `\n--- ${page.label} ---\n\n${page.text}\n\n`).join("")
     if (combinedText.trim()) {
       return `# ${bookInfo.title} by ${bookInfo.author}\n\n${combinedText}`
     } else {
@@ -207,51 +586,131 @@ async function analyzeScreenshots(screenshots, bookInfo) {
   }
 }
 
-
-async function isFirstPage(screenshot) {
-  try {
-    try {
-      const base64Image = `data:image/jpeg;base64,${screenshot}`;
-      let isFirst = false;
-      
-      // Use GPT-4o to extract text from the screenshot
-      const { text } = await generateText({
-        model: openai("gpt-4o-mini"),
-        messages: [
+async function extractTextWithModel(base64Screenshot: string, language: string | null = null, mimeType = "image/jpeg") {
+  const base64Image = `data:${mimeType};base64,${base64Screenshot}`;
+  // Without it, models tend to "helpfully" translate non-English pages into English
+  const languageName = getLanguageName(language)
+  const languageHint = languageName ? ` The page is written in ${languageName}; keep it in ${languageName} and do not translate it.` : ""
+
+  // Use the vision model to extract text from the screenshot
+  const { text } = await generateText({
+    model: getStageModel("analyze"),
+    messages: [
+      {
+        role: "user",
+        content: [
           {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: "Check if this is the first page of actual reading content in the book (excluding title, table of contents, etc.). Only return 'yes' or 'no' with no additional commentary.",
-              },
-              {
-                type: "image",
-                image: base64Image,
-              },
-            ],
+            type: "text",
+            text: `Extract all the text from this book page image, maintaining paragraph structure. Only return the text content exactly as it appears, with no additional commentary.${languageHint}`,
+          },
+          {
+            type: "image",
+            image: base64Image,
           },
         ],
-      })
+      },
+    ],
+  })
 
-      console.log("First page detection result:", text.trim()) 
-      if (text.trim().toLowerCase().includes("yes")) {
-        isFirst = true
-      }
+  return text
+}
 
-      return isFirst;
-       
-      
-    } catch (error) {
-      console.error(`Error analyzing screenshot:`, error)
-    }
+/**
+ * Translates extracted page text.
+ * @param {string} text - Extracted text, in markdown
+ * @param {string} targetLanguage - ISO 639-1 code to translate into
+ * @param {string} sourceLanguage - ISO 639-1 code of the text, if known
+ * @returns {TextTranslation|null} - The translation; null when the model call failed, so the
+ *   original text is still returned
+ */
+async function translateText(text: string, targetLanguage: string, sourceLanguage: string | null): Promise<TextTranslation | null> {
+  const targetName = getLanguageName(targetLanguage) || targetLanguage
+  const sourceName = getLanguageName(sourceLanguage)
+
+  try {
+    console.log(`Translating extracted text from ${sourceName || "an unknown language"} to ${targetName}...`)
+    const { text: translated } = await generateText({
+      model: getStageModel("translate"),
+      messages: [
+        {
+          role: "user",
+          content: `Translate the following book text${sourceName ? ` from ${sourceName}` : ""} into ${targetName}. Keep the paragraph structure and markdown headings, and return only the translation with no additional commentary.\n\n${text}`,
+        },
+      ],
+    })
+    return { language: targetLanguage, text: translated.trim() }
   } catch (error) {
-    console.error("Error analyzing screenshots:", error)
+    console.error("Error translating text:", error)
+    return null
+  }
+}
+
+/**
+ * Asks the firstPage-stage model whether a page is the first page of reading content.
+ * @returns {boolean} - false when the model says no or the call fails
+ */
+async function isFirstPage(base64: string, mimeType: string) {
+  return askAboutPage(
+    base64,
+    mimeType,
+    "Check if this is the first page of actual reading content in the book (excluding title, table of contents, etc.).",
+  )
+}
+
+/**
+ * Asks the firstPage-stage model a yes/no question about a page.
+ * @returns {boolean} - false when the model says no or the call fails
+ */
+async function askAboutPage(base64: string, mimeType: string, question: string) {
+  try {
+    const { text } = await generateText({
+      model: getStageModel("firstPage"),
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: `${question} Only return 'yes' or 'no' with no additional commentary.` },
+            { type: "image", image: `data:${mimeType};base64,${base64}` },
+          ],
+        },
+      ],
+    })
+    return text.trim().toLowerCase().includes("yes")
+  } catch (error) {
+    console.error("Error checking page:", error)
+    return false
+  }
+}
+
+function createCandidateSelectionMessage(bookDetails, candidates) {
+  let message = `# Which book is this?\n\n`
+  message += `We couldn't confidently match "${bookDetails.title || "Unknown Title"}"`
+  message += bookDetails.author ? ` by ${bookDetails.author}` : ""
+  message += ` to a single book. Please choose one of these and try again:\n\n`
+
+  for (const candidate of candidates) {
+    message += `- ${candidate.bookInfo.title} by ${candidate.bookInfo.author} (match score ${candidate.score})\n`
   }
+
+  return message
+}
+
+// Which preview page(s) we return: the second for fiction, the first for non-fiction, both when unknown
+function getPageType(isFiction: boolean | null | undefined) {
+  if (isFiction === true) return "second"
+  if (isFiction === false) return "first"
+  return "firstAndSecond"
+}
+
+// Page to link to when the captured pages' ids aren't known
+function getDefaultPageId(bookInfo, pageSelector: PageSelector) {
+  return pageSelector.kind === "auto" ? `PA${bookInfo.isFiction ? 2 : 1}` : getStartPageId(pageSelector)
 }
 
-function createFallbackPreviewMessage(bookInfo) {
-  const pageType = bookInfo.isFiction ? "second" : "first"
+function createFallbackPreviewMessage(bookInfo, preview: PreviewAvailability | null = null, pageSelector: PageSelector = { kind: "auto" }) {
+  const pageType =
+    describePageSelector(pageSelector) ??
+    { first: "first page", second: "second page", firstAndSecond: "opening pages" }[getPageType(bookInfo.isFiction)]
   
   let message = `# ${bookInfo.title} by ${bookInfo.author}\n\n`
   
@@ -259,182 +718,242 @@ function createFallbackPreviewMessage(bookInfo) {
     message += `## Description\n\n${bookInfo.description}\n\n`
   }
   
-  message += `We were unable to access or extract text from the ${pageType} page for this book.\n\n`
+  if (preview && !preview.available) {
+    message += `${preview.message}.\n\n`
+  } else {
+    message += `We were unable to access or extract text from the ${pageType} for this book.\n\n`
+  }
   
-  if (bookInfo.previewLink) {
-    message += `You can [view the book preview on Google Books](${bookInfo.previewLink}) to read sample pages.\n\n`
+  if (bookInfo.previewLink && (preview?.reason === "noPreview" || preview?.reason === "notEmbeddable")) {
+    message += `You can [see the book on Google Books](${bookInfo.previewLink}).\n\n`
+  } else if (bookInfo.previewLink) {
+    const previewSite = bookInfo.id ? "Google Books" : "the Internet Archive"
+    message += `You can [view the book preview on ${previewSite}](${bookInfo.previewLink}) to read sample pages.\n\n`
   }
   
   return message
 }
 
-export async function extractBookScreenshots(bookId, bookIsFiction) {
-  console.log(`Starting screenshot extraction for book ID: ${bookId} from page ${1}`);
+// Save to disk for debugging
+function saveDebugScreenshot(bookId, index, screenshotBuffer, mimeType = "image/jpeg") {
+  const debugDir = path.join(os.tmpdir(), 'book-screenshots');
+  if (!fs.existsSync(debugDir)) {
+    fs.mkdirSync(debugDir, { recursive: true });
+  }
+  const extension = mimeType === "image/png" ? "png" : "jpg";
+  const screenshotPath = path.join(debugDir, `screenshot-${bookId}-${index + 1}.${extension}`);
+  fs.writeFileSync(screenshotPath, screenshotBuffer);
+  console.log(`Saved screenshot: ${screenshotPath}`);
+}
+
+interface PageCapture {
+  buffer: Buffer;
+  mimeType: string;
+  source: CaptureSource;
+  pageId: string | null;
+}
+
+/**
+ * Captures the page in view: the scanned page image the viewer downloaded when there is
+ * one, otherwise a JPEG screenshot of the viewport.
+ */
+async function capturePage(page: Page, pageImages: Map<string, PageImage> | null): Promise<PageCapture> {
+  const image = pageImages ? await findVisiblePageImage(page, pageImages) : null
+  if (image) {
+    console.log(`Captured page image ${image.pageId} (${image.buffer.length} bytes)`)
+    return { buffer: image.buffer, mimeType: image.mimeType, source: "pageImage", pageId: image.pageId }
+  }
+
+  const screenshot = await page.screenshot({
+    type: 'jpeg',
+    quality: 80,
+    fullPage: false, // Capture viewport only
+    encoding: 'binary'
+  });
+  // Typed for every encoding; 'binary' resolves with a Buffer
+  if (!Buffer.isBuffer(screenshot)) {
+    throw new Error('The viewport screenshot came back without image data');
+  }
+  // The viewer still says which page is in view even when its image wasn't caught
+  const pageId = await getVisiblePageId(page)
+  return { buffer: screenshot, mimeType: "image/jpeg", source: "screenshot", pageId }
+}
+
+function toScreenshot(index: number, captured: PageCapture): Screenshot {
+  return {
+    index,
+    base64Imagee: captured.buffer.toString('base64'),
+    mimeType: captured.mimeType,
+    source: captured.source,
+    pageId: captured.pageId,
+  }
+}
+
+// Pages the viewer is paged through while looking for a page
+const MAX_SEARCHED_PAGES = 15
+
+/**
+ * Captures the preview pages a page selector asks for from the Google Books embed viewer.
+ * "auto" keeps the first page of reading content for non-fiction and the page after it for
+ * fiction; when bookIsFiction is null (unknown), both pages are captured. Pages are the
+ * images the viewer downloads, with viewport screenshots as the fallback. The first body page
+ * is recognized from the pages' OCR text where possible, in the book's language when known.
+ */
+export async function extractBookScreenshots(
+  bookId,
+  bookIsFiction: boolean | null,
+  onEvent: PipelineEventHandler = () => {},
+  selector: PageSelector = { kind: "auto" },
+  language: string | null = null,
+) {
+  const startPageId = getStartPageId(selector);
+  console.log(`Starting screenshot extraction for book ID: ${bookId} from page ${startPageId} (${getPageSelectorKey(selector)})`);
   
-  let browser;
-  const screenshots = [];
+  let lease: BrowserLease | undefined;
+  const screenshots: Screenshot[] = [];
+  const firstPageDetector = createFirstPageDetector({ language, askModel: isFirstPage });
+  const checkFirstPage = (captured: PageCapture, base64: string) =>
+    firstPageDetector.check(base64, captured.mimeType, captured.pageId);
   
   try {
-    // Determine environment (production or development)
-    const isProd = process.env.NODE_ENV === 'production';
-    let browserConfig: any = {};
-
-    if (isProd) {
-      console.log("Running in production environment (Vercel)");
-      try {
-        // For Vercel/serverless environment
-        const chromium = await import('chrome-aws-lambda');
-        browserConfig = {
-          args: [...chromium.default.args, '--disable-web-security'],
-          executablePath: await chromium.default.executablePath,
-          headless: chromium.default.headless,
-        };
-        console.log("Using chrome-aws-lambda with executable path:", browserConfig.default.executablePath);
-      } catch (error) {
-        console.error("Error importing chrome-aws-lambda:", error);
-        console.log("Falling back to default browser launch options");
-        browserConfig = {
-          args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-web-security'],
-          headless: 'new'
-        };
-      }
-    } else {
-      console.log("Running in development environment");
-      
-      // Try to locate Chrome/browser executable
-      try {
-        const executablePath = await getChromePath();
-        
-        console.log(`Using Chrome at: ${executablePath}`);
-        browserConfig = {
-          headless: 'new',
-          executablePath,
-          args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-web-security']
-        };
-      } catch (error) {
-        console.warn("Chrome executable path not found:");
-        console.log("Falling back to puppeteer's bundled Chromium");
-        
-        // Try using puppeteer's bundled Chrome
-        try {
-          const puppeteerFull = await import('puppeteer');
-          browser = await puppeteerFull.default.launch({
-            headless: true,
-            args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-web-security']
-          });
-        } catch (puppeteerError) {
-          console.error("Error launching puppeteer's bundled Chromium:", puppeteerError);
-          
-          // Last resort - try launching without specifying executable path
-          browserConfig = {
-            headless: 'new',
-            args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-web-security']
-          };
-        }
-      }
-    }
+    // A warm browser from the pool, with an incognito context of our own
+    lease = await acquireBrowserContext();
+    console.log(`Using pooled browser ${lease.browserId}`);
 
-    if (!browser) {
-      browser = await puppeteer.launch(browserConfig);
-    }
-
-   
-    const screenshots: Screenshot[] = [];
-    const page = await browser.newPage();
-    let foundfirst = false;
+    const page = await lease.context.newPage();
+    // Listen before navigating, so the first pages' images are caught too
+    const pageImageWatcher = isPageImageCaptureEnabled() ? watchPageImages(page) : null;
+    const pageImages = pageImageWatcher?.images ?? null;
 
     // Set viewport and user agent
     await page.setViewport({ width: 1280, height: 900 });
     await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/91.0.4472.124 Safari/537.36');
 
     // Navigate to Google Books URL
-    const url = `https://books.google.com/books?id=${bookId}&newbks=0&lpg=PP1&pg=PA1&output=embed`;
+    const url = `https://books.google.com/books?id=${bookId}&newbks=0&lpg=PP1&pg=${startPageId}&output=embed`;
     console.log(`Navigating to URL: ${url}`);
     await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
     console.log('Page loaded');
 
-    // Wait for iframe and locate the one with the next page button
-    // console.log('Page content:', html);
-
-    const buttonHandle = await page.waitForFunction(() => {
+    // null if the handle isn't an element after all; turnPage then clicks by selector
+    const buttonHandle = (await page.waitForFunction(() => {
       const divs = Array.from(document.querySelectorAll('div'));
       return divs.find(div => div.style.backgroundImage.includes('right_btn.png'));
-    }, {timeout: 60000 });
+    }, {timeout: 60000 })).asElement();
 
     const buttonSelector = 'div[style*="background-image: url(\'https://www.google.com/googlebooks/images/right_btn.png\')"]';
 
+    // Moves the viewer on one page; false at the end of the preview
+    const turnPage = async (settleMs = 1500) => {
+      try {
+        if (buttonHandle) {
+          await buttonHandle.click();
+        } else {
+          await page.click(buttonSelector);
+        }
+        // Give the viewer a moment to render the next page
+        await new Promise((resolve) => setTimeout(resolve, settleMs));
+        return true;
+      } catch (error) {
+        console.log('Could not click next page button, possibly end of preview');
+        return false;
+      }
+    };
 
-    // Capture 5 screenshots
-    for (let i = 1; i <= 15; i++) {
-      console.log(`Taking screenshot ${i + 1}/5`);
-
-      const screenshotBuffer = await page.screenshot({
-        type: 'jpeg',
-        quality: 80,
-        fullPage: false // Capture viewport only
-      });
- 
-      const buffer = Buffer.from(screenshotBuffer);
-      const base64Screenshot = buffer.toString('base64');
-    
-
-      console.log("base64Screenshot: ", base64Screenshot.substring(0, 20));
+    // Pages through the preview until `matches` accepts a page, reporting every page checked
+    const findPage = async (matches: (captured: PageCapture, base64: string) => Promise<Pick<FirstPageDecision, "isFirstPage" | "checkedBy">>) => {
+      for (let i = 1; i <= MAX_SEARCHED_PAGES; i++) {
+        const captured = await capturePage(page, pageImages);
+        const base64Screenshot = captured.buffer.toString('base64');
+        const { isFirstPage: found, checkedBy } = await matches(captured, base64Screenshot);
+        console.log(`Page ${captured.pageId ?? i} checked (${checkedBy}): ${found}`);
+        onEvent({ type: "pageChecked", index: i, isFirstPage: found, pageId: captured.pageId, checkedBy, screenshot: base64Screenshot });
+
+        if (found) return captured;
+        // A model call gives the viewer time to render; a local check may not have
+        if (!(await turnPage(checkedBy === "model" ? 0 : 500))) return null;
+      }
+      return null;
+    };
 
-      foundfirst = await isFirstPage(base64Screenshot) ?? false;
-      console.log("foundfirst at EoL: ", foundfirst);
+    const keep = (captured: PageCapture) => {
+      const index = screenshots.length + 1;
+      screenshots.push(toScreenshot(index, captured));
+      saveDebugScreenshot(bookId, index, captured.buffer, captured.mimeType);
+    };
 
+    switch (selector.kind) {
+      case "page":
+        // Opened at the page already; the captured page id shows if the preview skipped it
+        keep(await capturePage(page, pageImages));
+        break;
 
-      if (!foundfirst) {
-        try {
-          if (buttonHandle) {
-            await buttonHandle.click();
-          } else {
-            await page.click(buttonSelector);
-          }
-        } catch (error) {
-          console.log('Could not click next page button, possibly end of preview');
+      case "range": {
+        const lastPageId = `PA${selector.to}`;
+        for (let count = 0; count < selector.to - selector.from + 1; count++) {
+          const captured = await capturePage(page, pageImages);
+          keep(captured);
+          if (captured.pageId === lastPageId || !(await turnPage())) break;
         }
+        break;
+      }
 
-      } else if (base64Screenshot && base64Screenshot.length > 0) {
-        console.log("Found first page!")
-
-        if (bookIsFiction) {
-          try {
-            if (buttonHandle) {
-              await buttonHandle.click();
-            } else {
-              await page.click(buttonSelector);
-            }
-          } catch (error) {
-            console.log('Could not click next page button, possibly end of preview');
-          }
+      case "section": {
+        const sectionName = getSectionName(selector.section);
+        const captured = await findPage(async (captured, base64) => ({
+          isFirstPage: await askAboutPage(base64, captured.mimeType, `Is this page the ${sectionName} of the book (or its first page, if it spans several)?`),
+          checkedBy: "model",
+        }));
+        if (captured) keep(captured);
+        break;
+      }
 
+      case "bodyPages": {
+        const first = await findPage(checkFirstPage);
+        if (!first) break;
+        keep(first);
+        while (screenshots.length < selector.count && (await turnPage())) {
+          const captured = await capturePage(page, pageImages);
+          // The viewer stays put at the end of the preview
+          if (captured.pageId && captured.pageId === screenshots[screenshots.length - 1].pageId) break;
+          keep(captured);
         }
+        break;
+      }
 
-        console.log(`Screenshot ${i + 1} base64 length: ${base64Screenshot.length}`);
-        screenshots.push({
-          index: i,
-          base64Imagee: base64Screenshot
-        });
-
-        // Save to disk for debugging
-        const debugDir = path.join(os.tmpdir(), 'book-screenshots');
-        if (!fs.existsSync(debugDir)) {
-          fs.mkdirSync(debugDir, { recursive: true });
+      case "firstChapter": {
+        const first = await findPage(checkFirstPage);
+        if (!first) break;
+        keep(first);
+        // The chapter goes on until the next one starts
+        while (screenshots.length < MAX_SELECTED_PAGES && (await turnPage())) {
+          const captured = await capturePage(page, pageImages);
+          const base64 = captured.buffer.toString('base64');
+          if (await askAboutPage(base64, captured.mimeType, "Does a new chapter start on this page (a chapter heading or number)?")) break;
+          keep(captured);
         }
-        const screenshotPath = path.join(debugDir, `screenshot-${bookId}-${i + 1}.jpg`);
-        fs.writeFileSync(screenshotPath, screenshotBuffer);
-        console.log(`Saved screenshot: ${screenshotPath}`);
-
         break;
-
-      } else {
-        console.log(`Screenshot ${i + 1} is empty or invalid`);
       }
 
+      default: {
+        // "auto" and "firstBodyPage"
+        const first = await findPage(checkFirstPage);
+        if (!first) break;
+        console.log("Found first page!")
+
+        const keepFirst = selector.kind === "firstBodyPage" || bookIsFiction !== true;
+        const keepNext = selector.kind === "auto" && bookIsFiction !== false;
+        // Non-fiction keeps the first page; when we couldn't tell, keep it alongside the second
+        if (keepFirst) keep(first);
+        // Fiction (or unknown) also needs the page after it
+        if (keepNext && (await turnPage())) {
+          keep(await capturePage(page, pageImages));
+        }
+      }
     }
 
-    console.log(`Screenshot capture complete. Captured ${screenshots.length} screenshots.`);
+    pageImageWatcher?.stop();
+    console.log(`Screenshot capture complete. Captured ${screenshots.length} screenshots: ${screenshots.map((screenshot) => screenshot.pageId ?? "?").join(", ")}`);
 
     return {
       success: screenshots.length > 0,
@@ -450,91 +969,10 @@ export async function extractBookScreenshots(bookId, bookIsFiction) {
       message: "Error extracting screenshots: " + (error instanceof Error ? error.message : "Unknown error")
     };
   } finally {
-    if (browser) {
-      await browser.close();
-      console.log("Browser closed");
+    await firstPageDetector.close();
+    if (lease) {
+      await lease.release();
+      console.log("Browser context released");
     }
   }
 }
-
-/**
- * Finds Chrome/Chromium executable path
- * @returns Path to Chrome executable
- */
-async function getChromePath() {
-  const platform = os.platform();
-  console.log(`Detecting Chrome on platform: ${platform}`);
-  
-  // Define common Chrome paths by platform
-  const chromePaths = {
-    darwin: [  // macOS
-      '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
-      '/Applications/Google Chrome Canary.app/Contents/MacOS/Google Chrome Canary',
-      '/Applications/Chromium.app/Contents/MacOS/Chromium',
-      '/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge',
-      '/Applications/Brave Browser.app/Contents/MacOS/Brave Browser',
-      '/Applications/Opera.app/Contents/MacOS/Opera'
-    ],
-    win32: [  // Windows
-      'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
-      'C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe',
-      process.env.LOCALAPPDATA + '\\Google\\Chrome\\Application\\chrome.exe',
-      'C:\\Program Files (x86)\\Microsoft\\Edge\\Application\\msedge.exe',
-      'C:\\Program Files\\Microsoft\\Edge\\Application\\msedge.exe',
-      process.env.LOCALAPPDATA + '\\Microsoft\\Edge\\Application\\msedge.exe',
-      'C:\\Program Files\\BraveSoftware\\Brave-Browser\\Application\\brave.exe'
-    ],
-    linux: [  // Linux
-      '/usr/bin/google-chrome',
-      '/usr/bin/google-chrome-stable',
-      '/usr/bin/chromium',
-      '/usr/bin/chromium-browser',
-      '/usr/bin/microsoft-edge',
-      '/usr/bin/brave-browser'
-    ]
-  };
-  
-  // Get list of paths to try for the current platform
-  const pathsToTry = chromePaths[platform] || [];
-  
-  // Try each path
-  for (const chromePath of pathsToTry) {
-    try {
-      if (fs.existsSync(chromePath)) {
-        console.log(`Found browser at: ${chromePath}`);
-        return chromePath;
-      }
-    } catch (error) {
-      // Continue to next path
-    }
-  }
-  
-  // Try using 'which' command on Linux/macOS
-  if (platform !== 'win32') {
-    try {
-      const { exec } = await import('child_process');
-      const util = await import('util');
-      const execAsync = util.promisify(exec);
-      
-      // Try to find Chrome/Chromium using which
-      const browsers = ['google-chrome', 'chrome', 'chromium', 'chromium-browser', 'microsoft-edge', 'brave'];
-      
-      for (const browser of browsers) {
-        try {
-          const { stdout } = await execAsync(`which ${browser}`);
-          if (stdout.trim()) {
-            console.log(`Found browser with 'which' command: ${stdout.trim()}`);
-            return stdout.trim();
-          }
-        } catch (e) {
-          // Ignore errors from which command
-        }
-      }
-    } catch (error) {
-      // Continue to next method
-    }
-  }
-  
-  // If we reach here, we couldn't find Chrome
-  throw new Error(`Could not find Chrome/Chromium browser on platform ${platform}. Please install Chrome or specify its path manually.`);
-}
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { compareAuthors, compareTitles, normalizeTitle, verifyMatch } from "./bookVerification.js"
+import { getWorkKey } from "./editions.js"
+
+describe("verifyMatch", () => {
+  it("matches a Cyrillic title against itself", () => {
+    const verification = verifyMatch({ title: "Война и мир", authors: ["Лев Толстой"] }, { title: "Война и мир", author: "Лев Толстой" })
+    assert.equal(verification.titleSimilarity, 1)
+    assert.equal(verification.verdict, "match")
+  })
+
+  it("matches a CJK title against itself", () => {
+    const verification = verifyMatch({ title: "ノルウェイの森", authors: ["村上春樹"] }, { title: "ノルウェイの森", author: "村上春樹" })
+    assert.equal(verification.titleSimilarity, 1)
+    assert.equal(verification.verdict, "match")
+  })
+
+  it("tells different Cyrillic titles apart", () => {
+    assert.ok(compareTitles("Война и мир", "Анна Каренина") < 0.5)
+  })
+})
+
+describe("compareAuthors", () => {
+  it("matches a surname written with and without its particle", () => {
+    assert.equal(compareAuthors("Le Guin, Ursula K.", ["Ursula K. Le Guin"]), 1)
+    assert.equal(compareAuthors("Le Guin, Ursula K.", ["Ursula K. LeGuin"]), 1)
+  })
+
+  it("doesn't match a surname that merely ends like another", () => {
+    assert.equal(compareAuthors("John Smith", ["John Goldsmith"]), 0)
+    assert.equal(compareAuthors("Erik Son", ["Erik Johnson"]), 0)
+    assert.equal(compareAuthors("Thomas Mann", ["Thomas Hartmann"]), 0)
+  })
+
+  it("keeps the wrong volume from being verified as the cover's book", () => {
+    const verification = verifyMatch({ title: "The Garden", authors: ["Anna Goldsmith"] }, { title: "The Garden", author: "Anna Smith" })
+    assert.notEqual(verification.verdict, "match")
+  })
+})
+
+describe("getWorkKey", () => {
+  it("keeps non-Latin titles apart", () => {
+    assert.notEqual(normalizeTitle("Война и мир"), "")
+    assert.notEqual(getWorkKey("Война и мир", "Лев Толстой"), getWorkKey("ノルウェイの森", "村上春樹"))
+  })
+})
@@ -0,0 +1,197 @@
+import { normalizeIsbn } from "./isbn.js"
+import type { MatchVerification } from "shared"
+
+/**
+ * Checks that a looked-up volume is the book on the cover. Titles are compared without
+ * subtitles, edition notes, diacritics or leading articles; authors by surname and given
+ * names, whichever order they are written in and whether or not they are initials:
+ *
+ *   "The Hobbit: Or There and Back Again" / "Hobbit"   ->  same title
+ *   "Tolkien, J. R. R." / "John Ronald Reuel Tolkien"   ->  same author
+ */
+
+const MATCH_TITLE_SIMILARITY = 0.85
+const MATCH_AUTHOR_SIMILARITY = 0.8
+const PARTIAL_TITLE_SIMILARITY = 0.5
+
+const LEADING_ARTICLE = /^(the|a|an|le|la|les|el|los|las|der|die|das) /
+const NAME_SUFFIX = /^(jr|sr|ii|iii|iv|phd|md)$/
+
+/**
+ * Lower-cases, strips diacritics and punctuation and collapses whitespace. Letters and digits
+ * of every script are kept, so "Война и мир" and "ノルウェイの森" compare like Latin titles.
+ */
+export function normalizeText(value: string | null | undefined) {
+  return (value || "")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+/**
+ * A title without subtitle, series or edition notes and leading article.
+ * @param {string} title - e.g. "The Hobbit: Or There and Back Again (Deluxe Edition)"
+ * @returns {string} - e.g. "hobbit"
+ */
+export function normalizeTitle(title: string | null | undefined) {
+  const main = (title || "")
+    // "Dune: Deluxe Edition", "Emma - A Novel"
+    .split(/\s*[:;]\s+|\s+[-–—]\s+/)[0]
+    // "Emma (Penguin Classics)", "Dune [Illustrated]"
+    .replace(/\s*[([].*?[)\]]/g, "")
+  return normalizeText(main).replace(LEADING_ARTICLE, "").replace(/ a novel$/, "")
+}
+
+/**
+ * Splits an author's name into surname and given names.
+ * @param {string} author - "First Middle Last" or "Last, First Middle"
+ * @returns {Object} - Surname (particles included when written first, e.g. "le guin") and given
+ *   names, where initials are single letters
+ */
+export function parseAuthorName(author: string | null | undefined) {
+  const words = (value: string) =>
+    normalizeText(value.replace(/\./g, " ")).split(" ").filter((word) => word && !NAME_SUFFIX.test(word))
+
+  const [before, after] = (author || "").split(/,(.*)/s)
+  if (after !== undefined && words(after).length > 0) {
+    return { surname: words(before).join(" "), given: words(after) }
+  }
+  const parts = words(author || "")
+  return { surname: parts[parts.length - 1] || "", given: parts.slice(0, -1) }
+}
+
+function levenshtein(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// 1 for equal strings, falling with the share of characters that have to change
+function characterSimilarity(a: string, b: string) {
+  const length = Math.max(a.length, b.length)
+  return length === 0 ? 0 : 1 - levenshtein(a, b) / length
+}
+
+// Dice coefficient over word sets
+function wordSimilarity(a: string, b: string) {
+  const wordsA = new Set(a.split(" ").filter(Boolean))
+  const wordsB = new Set(b.split(" ").filter(Boolean))
+  if (wordsA.size === 0 || wordsB.size === 0) return 0
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length
+  return (2 * shared) / (wordsA.size + wordsB.size)
+}
+
+/**
+ * How similar two titles are once normalized; misread letters and reordered words both
+ * count against them, but less than unrelated words.
+ * @returns {number} - 0-1
+ */
+export function compareTitles(a: string | null | undefined, b: string | null | undefined) {
+  const titleA = normalizeTitle(a)
+  const titleB = normalizeTitle(b)
+  if (!titleA || !titleB) return 0
+  if (titleA === titleB) return 1
+  return Math.round(Math.max(wordSimilarity(titleA, titleB), characterSimilarity(titleA, titleB)) * 100) / 100
+}
+
+function surnamesMatch(a: string, b: string) {
+  const joinedA = a.replace(/ /g, "")
+  const joinedB = b.replace(/ /g, "")
+  if (!joinedA || !joinedB) return false
+  if (joinedA === joinedB) return true
+  // "le guin" written first vs "guin" as the last of "Ursula K. Le Guin"; only whole particles,
+  // so "smith" doesn't match "goldsmith"
+  const [fewer, more] = [a.split(" "), b.split(" ")].sort((x, y) => x.length - y.length)
+  const trailing = more.slice(more.length - fewer.length).join(" ")
+  if (fewer.length < more.length && fewer.join(" ").length >= 3 && trailing === fewer.join(" ")) return true
+  // One misread letter in a longer name
+  return Math.min(joinedA.length, joinedB.length) >= 5 && levenshtein(joinedA, joinedB) <= 1
+}
+
+// Given names agree when each pair is equal or an initial of the other
+function givenNamesMatch(a: string[], b: string[]) {
+  const count = Math.min(a.length, b.length)
+  for (let index = 0; index < count; index++) {
+    const [x, y] = [a[index], b[index]]
+    const compatible = x === y || (x.length === 1 && y.startsWith(x)) || (y.length === 1 && x.startsWith(y))
+    if (!compatible) return false
+  }
+  return true
+}
+
+function compareAuthorNames(a: string, b: string) {
+  const nameA = parseAuthorName(a)
+  const nameB = parseAuthorName(b)
+  if (!surnamesMatch(nameA.surname, nameB.surname)) {
+    // Surname-first names without a comma ("Murakami Haruki")
+    return nameA.given.length > 0 && surnamesMatch(nameA.given[0], nameB.surname) ? 0.9 : 0
+  }
+  if (nameA.given.length === 0 || nameB.given.length === 0) return 0.9
+  return givenNamesMatch(nameA.given, nameB.given) ? 1 : 0.5
+}
+
+/**
+ * How similar the cover's author is to the closest of the volume's authors.
+ * @param {string} coverAuthor - Author read off the cover; may name several ("A and B")
+ * @param {string[]} authors - The volume's authors
+ * @returns {number} - 0-1
+ */
+export function compareAuthors(coverAuthor: string | null | undefined, authors: string[]) {
+  const coverAuthors = (coverAuthor || "").split(/\s+(?:and|&)\s+|\s*;\s*/).filter((name) => name.trim())
+  let best = 0
+  for (const a of coverAuthors) {
+    for (const b of authors) {
+      best = Math.max(best, compareAuthorNames(a, b))
+    }
+  }
+  return best
+}
+
+/**
+ * Decides whether a volume is the photographed book.
+ * @param {Object} bookInfo - Candidate volume
+ * @param {Object} bookDetails - Title, author and ISBN extracted from the cover
+ * @returns {MatchVerification} - "match", "partial" (same title, author unconfirmed or vice
+ *   versa), "mismatch", or "unverified" when the cover gave nothing to compare
+ */
+export function verifyMatch(bookInfo, bookDetails): MatchVerification {
+  const isbn = normalizeIsbn(bookDetails.isbn)
+  const volumeIsbns = (bookInfo.industryIdentifiers || []).map((id) => normalizeIsbn(id.identifier))
+  if (isbn && volumeIsbns.includes(isbn)) {
+    return { verdict: "match", titleSimilarity: null, authorSimilarity: null, reasons: [`ISBN ${isbn} matches`] }
+  }
+  if (!bookDetails.title) {
+    return { verdict: "unverified", titleSimilarity: null, authorSimilarity: null, reasons: ["no title on the cover"] }
+  }
+
+  const reasons: string[] = []
+  const titleSimilarity = compareTitles(bookDetails.title, bookInfo.title)
+  reasons.push(`title "${bookDetails.title}" vs "${bookInfo.title}": ${titleSimilarity}`)
+
+  const hasAuthor = bookDetails.author && bookDetails.author !== "Unknown"
+  const authors: string[] = bookInfo.authors?.length ? bookInfo.authors : [bookInfo.author].filter(Boolean)
+  const authorSimilarity = hasAuthor ? compareAuthors(bookDetails.author, authors) : null
+  if (authorSimilarity !== null) {
+    reasons.push(`author "${bookDetails.author}" vs "${authors.join(", ")}": ${authorSimilarity}`)
+  }
+
+  const titleMatches = titleSimilarity >= MATCH_TITLE_SIMILARITY
+  const authorMatches = authorSimilarity === null || authorSimilarity >= MATCH_AUTHOR_SIMILARITY
+  let verdict: MatchVerification["verdict"] = "mismatch"
+  if (titleMatches && authorMatches) {
+    verdict = "match"
+  } else if (titleMatches || (titleSimilarity >= PARTIAL_TITLE_SIMILARITY && authorSimilarity !== null && authorMatches)) {
+    verdict = "partial"
+  }
+  return { verdict, titleSimilarity, authorSimilarity, reasons }
+}
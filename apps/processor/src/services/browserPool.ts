@@ -0,0 +1,421 @@
+import puppeteer from "puppeteer-core"
+import type { Browser, BrowserContext, PuppeteerNodeLaunchOptions } from "puppeteer-core"
+import * as os from "os"
+import * as fs from "fs"
+
+/**
+ * Keeps BROWSER_POOL_SIZE (default 2) Chrome instances running between jobs, so the
+ * screenshot stage doesn't pay for a cold start on every request. Each job leases an
+ * incognito context of its own on an idle browser, and waits (up to
+ * BROWSER_LEASE_TIMEOUT_MS) when every browser is busy. A browser is closed and replaced
+ * after BROWSER_MAX_USES leases, and replaced when it crashes, waiting longer after each
+ * crash in a row. The browsers are started when the server starts unless BROWSER_POOL_WARM=false.
+ */
+
+const DEFAULT_POOL_SIZE = 2
+const DEFAULT_MAX_USES = 50
+const DEFAULT_LEASE_TIMEOUT_MS = 120_000
+// Wait before replacing a crashed browser, doubled for each crash in a row
+const RELAUNCH_BASE_DELAY_MS = 1_000
+const RELAUNCH_MAX_DELAY_MS = 60_000
+
+const BROWSER_ARGS = ["--no-sandbox", "--disable-setuid-sandbox", "--disable-web-security"]
+
+function readPositiveInt(value: string | undefined, fallback: number) {
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback
+}
+
+export function getBrowserPoolSize() {
+  return readPositiveInt(process.env.BROWSER_POOL_SIZE, DEFAULT_POOL_SIZE)
+}
+
+function getMaxUses() {
+  return readPositiveInt(process.env.BROWSER_MAX_USES, DEFAULT_MAX_USES)
+}
+
+function getLeaseTimeoutMs() {
+  return readPositiveInt(process.env.BROWSER_LEASE_TIMEOUT_MS, DEFAULT_LEASE_TIMEOUT_MS)
+}
+
+export function isBrowserPoolWarmEnabled() {
+  return process.env.BROWSER_POOL_WARM !== "false"
+}
+
+/**
+ * Starts one browser. Replaced in tests and offline runs through setBrowserLauncher.
+ */
+export type BrowserLauncher = () => Promise<Browser>
+
+interface PooledBrowser {
+  id: number
+  browser: Browser
+  // Leases served so far
+  uses: number
+  busy: boolean
+  // Set while the pool closes the browser itself, so it isn't counted as a crash
+  closing: boolean
+  launchedAt: string
+}
+
+export interface BrowserLease {
+  context: BrowserContext
+  browserId: number
+  // Closes the context and hands the browser back to the pool; safe to call more than once
+  release(): Promise<void>
+}
+
+const browsers: PooledBrowser[] = []
+// Jobs waiting for a browser, first come first served
+const waiting: Array<{ resolve: (entry: PooledBrowser) => void; reject: (error: Error) => void }> = []
+let launching = 0
+// Set by closeBrowserPool so retired browsers aren't replaced during shutdown
+let shuttingDown = false
+let nextBrowserId = 1
+// Crashes since a browser last served a lease; a browser that keeps dying is relaunched less often
+let crashesInARow = 0
+let relaunchTimer: NodeJS.Timeout | null = null
+const counters = { leases: 0, launches: 0, launchFailures: 0, recycled: 0, crashes: 0, timeouts: 0 }
+
+let customLauncher: BrowserLauncher | null = null
+
+/**
+ * Overrides how browsers are started, e.g. with a stand-in when there is no Chrome.
+ * Passing null restores the default launcher.
+ */
+export function setBrowserLauncher(launcher: BrowserLauncher | null) {
+  customLauncher = launcher
+}
+
+/**
+ * Finds Chrome/Chromium executable path
+ * @returns Path to Chrome executable
+ */
+async function getChromePath() {
+  const platform = os.platform()
+  console.log(`Detecting Chrome on platform: ${platform}`)
+
+  // Define common Chrome paths by platform
+  const chromePaths = {
+    darwin: [
+      "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
+      "/Applications/Google Chrome Canary.app/Contents/MacOS/Google Chrome Canary",
+      "/Applications/Chromium.app/Contents/MacOS/Chromium",
+      "/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge",
+      "/Applications/Brave Browser.app/Contents/MacOS/Brave Browser",
+      "/Applications/Opera.app/Contents/MacOS/Opera",
+    ],
+    win32: [
+      "C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe",
+      "C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe",
+      process.env.LOCALAPPDATA + "\\Google\\Chrome\\Application\\chrome.exe",
+      "C:\\Program Files (x86)\\Microsoft\\Edge\\Application\\msedge.exe",
+      "C:\\Program Files\\Microsoft\\Edge\\Application\\msedge.exe",
+      process.env.LOCALAPPDATA + "\\Microsoft\\Edge\\Application\\msedge.exe",
+      "C:\\Program Files\\BraveSoftware\\Brave-Browser\\Application\\brave.exe",
+    ],
+    linux: [
+      "/usr/bin/google-chrome",
+      "/usr/bin/google-chrome-stable",
+      "/usr/bin/chromium",
+      "/usr/bin/chromium-browser",
+      "/usr/bin/microsoft-edge",
+      "/usr/bin/brave-browser",
+    ],
+  }
+
+  for (const chromePath of chromePaths[platform] || []) {
+    if (fs.existsSync(chromePath)) {
+      console.log(`Found browser at: ${chromePath}`)
+      return chromePath
+    }
+  }
+
+  // Try using 'which' command on Linux/macOS
+  if (platform !== "win32") {
+    const { exec } = await import("child_process")
+    const util = await import("util")
+    const execAsync = util.promisify(exec)
+
+    for (const browser of ["google-chrome", "chrome", "chromium", "chromium-browser", "microsoft-edge", "brave"]) {
+      try {
+        const { stdout } = await execAsync(`which ${browser}`)
+        if (stdout.trim()) {
+          console.log(`Found browser with 'which' command: ${stdout.trim()}`)
+          return stdout.trim()
+        }
+      } catch (error) {
+        // Not installed under this name
+      }
+    }
+  }
+
+  throw new Error(
+    `Could not find Chrome/Chromium browser on platform ${platform}. Please install Chrome or specify its path manually.`,
+  )
+}
+
+// How to start a browser on this machine: puppeteer-core with these options, or puppeteer's
+// bundled Chromium. Worked out once, since finding Chrome can shell out to `which`.
+type LaunchPlan = { bundled: false; options: PuppeteerNodeLaunchOptions } | { bundled: true }
+let launchPlan: Promise<LaunchPlan> | null = null
+
+async function resolveLaunchPlan(): Promise<LaunchPlan> {
+  if (process.env.NODE_ENV === "production") {
+    console.log("Running in production environment (Vercel)")
+    try {
+      // For Vercel/serverless environment
+      const chromium = await import("chrome-aws-lambda")
+      const options = {
+        args: [...chromium.default.args, "--disable-web-security"],
+        executablePath: await chromium.default.executablePath,
+        headless: chromium.default.headless,
+      }
+      console.log("Using chrome-aws-lambda with executable path:", options.executablePath)
+      return { bundled: false, options }
+    } catch (error) {
+      console.error("Error importing chrome-aws-lambda:", error)
+      console.log("Falling back to default browser launch options")
+      return { bundled: false, options: { args: BROWSER_ARGS, headless: true } }
+    }
+  }
+
+  console.log("Running in development environment")
+  try {
+    const executablePath = await getChromePath()
+    console.log(`Using Chrome at: ${executablePath}`)
+    return { bundled: false, options: { headless: true, executablePath, args: BROWSER_ARGS } }
+  } catch (error) {
+    console.warn("Chrome executable path not found, using puppeteer's bundled Chromium")
+    return { bundled: true }
+  }
+}
+
+async function launchBrowser(): Promise<Browser> {
+  if (customLauncher) return customLauncher()
+
+  launchPlan ??= resolveLaunchPlan()
+  const plan = await launchPlan
+  if (plan.bundled) {
+    try {
+      const puppeteerFull = await import("puppeteer")
+      const bundled = await puppeteerFull.default.launch({ headless: true, args: BROWSER_ARGS })
+      // Driven through puppeteer-core like every other pooled browser; puppeteer still owns the process
+      return puppeteer.connect({ browserWSEndpoint: bundled.wsEndpoint() })
+    } catch (error) {
+      console.error("Error launching puppeteer's bundled Chromium:", error)
+      // Last resort - try launching without specifying executable path
+      return puppeteer.launch({ headless: true, args: BROWSER_ARGS })
+    }
+  }
+  return puppeteer.launch(plan.options)
+}
+
+async function startBrowser(busy: boolean): Promise<PooledBrowser> {
+  launching++
+  try {
+    const browser = await launchBrowser()
+    counters.launches++
+    const entry: PooledBrowser = {
+      id: nextBrowserId++,
+      browser,
+      uses: 0,
+      busy,
+      closing: false,
+      launchedAt: new Date().toISOString(),
+    }
+    browser.on("disconnected", () => {
+      if (entry.closing || !browsers.includes(entry)) return
+      console.error(`Browser ${entry.id} crashed or was closed, replacing it`)
+      counters.crashes++
+      removeBrowser(entry, true)
+    })
+    browsers.push(entry)
+    console.log(`Started browser ${entry.id} (${browsers.length}/${getBrowserPoolSize()})`)
+    return entry
+  } catch (error) {
+    counters.launchFailures++
+    // The place is free again; a waiting job gets to try its own launch
+    queueMicrotask(dispatchWaiting)
+    throw error
+  } finally {
+    launching--
+  }
+}
+
+function removeBrowser(entry: PooledBrowser, crashed = false) {
+  const index = browsers.indexOf(entry)
+  if (index >= 0) browsers.splice(index, 1)
+  // Its place can go to a job that is waiting, or else to a fresh browser started ahead of the next job
+  dispatchWaiting()
+  if (!isBrowserPoolWarmEnabled() || shuttingDown) return
+  if (!crashed) {
+    void warmBrowserPool()
+    return
+  }
+
+  const delay = Math.min(RELAUNCH_BASE_DELAY_MS * 2 ** crashesInARow, RELAUNCH_MAX_DELAY_MS)
+  crashesInARow++
+  if (relaunchTimer) return
+  console.log(`Replacing the crashed browser in ${delay}ms`)
+  relaunchTimer = setTimeout(() => {
+    relaunchTimer = null
+    if (!shuttingDown) void warmBrowserPool()
+  }, delay)
+  // Don't keep the process alive just to relaunch a browser
+  relaunchTimer.unref()
+}
+
+async function retireBrowser(entry: PooledBrowser, reason: string) {
+  console.log(`Closing browser ${entry.id} after ${entry.uses} uses (${reason})`)
+  entry.closing = true
+  removeBrowser(entry)
+  try {
+    await entry.browser.close()
+  } catch (error) {
+    // Already gone
+  }
+}
+
+// Claims an idle browser, or starts one when the pool has room; null when every browser is busy
+function claimBrowser(): Promise<PooledBrowser> | null {
+  const idle = browsers.find((entry) => !entry.busy)
+  if (idle) {
+    idle.busy = true
+    return Promise.resolve(idle)
+  }
+  if (browsers.length + launching < getBrowserPoolSize()) {
+    return startBrowser(true)
+  }
+  return null
+}
+
+function dispatchWaiting() {
+  while (waiting.length > 0) {
+    const claim = claimBrowser()
+    if (!claim) return
+    const waiter = waiting.shift()!
+    claim.then(waiter.resolve, waiter.reject)
+  }
+}
+
+function waitForBrowser(): Promise<PooledBrowser> {
+  return new Promise((resolve, reject) => {
+    const waiter = {
+      resolve: (entry: PooledBrowser) => {
+        clearTimeout(timer)
+        resolve(entry)
+      },
+      reject: (error: Error) => {
+        clearTimeout(timer)
+        reject(error)
+      },
+    }
+    const timer = setTimeout(() => {
+      const index = waiting.indexOf(waiter)
+      if (index >= 0) waiting.splice(index, 1)
+      counters.timeouts++
+      reject(new Error(`No browser became free within ${getLeaseTimeoutMs()}ms`))
+    }, getLeaseTimeoutMs())
+    waiting.push(waiter)
+  })
+}
+
+// Handing a browser back: recycled when it has served its share or is no longer usable
+async function returnBrowser(entry: PooledBrowser) {
+  entry.uses++
+  if (!browsers.includes(entry)) return
+  if (!entry.browser.isConnected()) {
+    counters.crashes++
+    removeBrowser(entry, true)
+    return
+  }
+  crashesInARow = 0
+  if (entry.uses >= getMaxUses()) {
+    counters.recycled++
+    await retireBrowser(entry, "max uses reached")
+    return
+  }
+  entry.busy = false
+  dispatchWaiting()
+}
+
+/**
+ * Leases an isolated incognito context on one of the pool's browsers, waiting for one to
+ * become free when they are all busy.
+ * @returns {BrowserLease} - The context; call `release()` when done, also after errors
+ */
+export async function acquireBrowserContext(): Promise<BrowserLease> {
+  // A browser that died while idle fails to create a context; replace it once before giving up
+  for (let attempt = 0; ; attempt++) {
+    const entry = await (claimBrowser() ?? waitForBrowser())
+    let context: BrowserContext
+    try {
+      context = await entry.browser.createIncognitoBrowserContext()
+    } catch (error) {
+      console.error(`Browser ${entry.id} could not open a context:`, error)
+      await retireBrowser(entry, "unusable")
+      if (attempt >= 1) throw error
+      continue
+    }
+
+    counters.leases++
+    let released = false
+    return {
+      context,
+      browserId: entry.id,
+      async release() {
+        if (released) return
+        released = true
+        try {
+          await context.close()
+        } catch (error) {
+          // The browser went away with it
+        }
+        await returnBrowser(entry)
+      },
+    }
+  }
+}
+
+/**
+ * Starts browsers until the pool is full, so the first jobs don't wait for Chrome to start.
+ * Failures are logged; the pool tries again when a job needs a browser.
+ */
+export async function warmBrowserPool() {
+  const missing = getBrowserPoolSize() - browsers.length - launching
+  const started = await Promise.allSettled(Array.from({ length: Math.max(missing, 0) }, () => startBrowser(false)))
+  for (const result of started) {
+    if (result.status === "rejected") console.error("Could not start a pooled browser:", result.reason)
+  }
+  dispatchWaiting()
+}
+
+/**
+ * Closes every browser, e.g. on shutdown. Jobs still waiting for one are rejected.
+ */
+export async function closeBrowserPool() {
+  shuttingDown = true
+  if (relaunchTimer) clearTimeout(relaunchTimer)
+  relaunchTimer = null
+  for (const waiter of waiting.splice(0)) {
+    waiter.reject(new Error("Browser pool closed"))
+  }
+  await Promise.all([...browsers].map((entry) => retireBrowser(entry, "pool closed")))
+}
+
+/**
+ * Pool size, what each browser is doing and lifetime counters, for /health.
+ */
+export function getBrowserPoolStats() {
+  return {
+    size: getBrowserPoolSize(),
+    maxUses: getMaxUses(),
+    running: browsers.length,
+    busy: browsers.filter((entry) => entry.busy).length,
+    launching,
+    waiting: waiting.length,
+    ...counters,
+    browsers: browsers.map(({ id, uses, busy, launchedAt }) => ({ id, uses, busy, launchedAt })),
+  }
+}
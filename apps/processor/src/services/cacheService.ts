@@ -0,0 +1,186 @@
+import sharp from "sharp"
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+/**
+ * Persistent on-disk cache with two layers:
+ *
+ *   images  - perceptual hash of an uploaded cover -> the book it was identified as
+ *   volumes - Google Books volume id -> captured page screenshots and extracted text
+ *
+ * Each entry is a JSON file under CACHE_DIR (default: <tmpdir>/book-processor-cache).
+ * Entries expire after CACHE_IMAGE_TTL_MS / CACHE_VOLUME_TTL_MS; set CACHE_DISABLED=true
+ * to turn the cache off entirely.
+ */
+
+export type CacheLayer = "images" | "volumes"
+
+export const CACHE_LAYERS: CacheLayer[] = ["images", "volumes"]
+
+const DEFAULT_TTL_MS: Record<CacheLayer, number> = {
+  images: 30 * 24 * 60 * 60 * 1000,
+  volumes: 7 * 24 * 60 * 60 * 1000,
+}
+
+// Covers whose hashes differ in at most this many of 64 bits count as the same photo
+const DEFAULT_HASH_DISTANCE = 6
+
+interface CacheEntry<T> {
+  key: string
+  storedAt: number
+  expiresAt: number
+  value: T
+}
+
+export function isCacheEnabled() {
+  return process.env.CACHE_DISABLED !== "true"
+}
+
+function getCacheDir() {
+  return process.env.CACHE_DIR || path.join(os.tmpdir(), "book-processor-cache")
+}
+
+function getTtl(layer: CacheLayer) {
+  const ttl = Number(process.env[layer === "images" ? "CACHE_IMAGE_TTL_MS" : "CACHE_VOLUME_TTL_MS"])
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_MS[layer]
+}
+
+function getHashDistance() {
+  const distance = Number(process.env.CACHE_HASH_DISTANCE)
+  return Number.isInteger(distance) && distance >= 0 ? distance : DEFAULT_HASH_DISTANCE
+}
+
+function entryPath(layer: CacheLayer, key: string) {
+  // Keys are hex hashes or Google Books ids; anything else is replaced to keep paths safe
+  return path.join(getCacheDir(), layer, `${key.replace(/[^A-Za-z0-9_-]/g, "_")}.json`)
+}
+
+async function readEntry<T>(layer: CacheLayer, key: string): Promise<CacheEntry<T> | null> {
+  try {
+    const entry: CacheEntry<T> = JSON.parse(await fs.readFile(entryPath(layer, key), "utf8"))
+    if (entry.expiresAt <= Date.now()) {
+      await fs.rm(entryPath(layer, key), { force: true })
+      return null
+    }
+    return entry
+  } catch (error) {
+    // Missing or unreadable entries are cache misses
+    return null
+  }
+}
+
+async function writeEntry<T>(layer: CacheLayer, key: string, value: T) {
+  const now = Date.now()
+  const entry: CacheEntry<T> = { key, storedAt: now, expiresAt: now + getTtl(layer), value }
+  const file = entryPath(layer, key)
+
+  try {
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    // Write then rename so concurrent readers never see a partial file
+    const tmpFile = `${file}.${process.pid}.${now}.tmp`
+    await fs.writeFile(tmpFile, JSON.stringify(entry))
+    await fs.rename(tmpFile, file)
+  } catch (error) {
+    console.error(`Error writing ${layer} cache entry ${key}:`, error)
+  }
+}
+
+/**
+ * Computes a 64-bit difference hash (dHash) of an image. Re-encoded, resized or
+ * slightly re-cropped copies of the same photo produce hashes a few bits apart.
+ * @param {Buffer} imageBuffer - Image in any format sharp can read
+ * @returns {string} - 16 character hex hash
+ */
+export async function computeImageFingerprint(imageBuffer: Buffer) {
+  const pixels = await sharp(imageBuffer).rotate().grayscale().resize(9, 8, { fit: "fill" }).raw().toBuffer()
+
+  let hash = 0n
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const left = pixels[row * 9 + col]
+      const right = pixels[row * 9 + col + 1]
+      hash = (hash << 1n) | (left > right ? 1n : 0n)
+    }
+  }
+  return hash.toString(16).padStart(16, "0")
+}
+
+function hammingDistance(a: string, b: string) {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`)
+  let distance = 0
+  while (diff > 0n) {
+    distance += Number(diff & 1n)
+    diff >>= 1n
+  }
+  return distance
+}
+
+/**
+ * Looks up the book a cover was identified as, allowing for small differences
+ * between photos of the same cover.
+ * @param {string} fingerprint - Hash from computeImageFingerprint
+ * @returns {Object|null} - Cached identification, or null on a miss
+ */
+export async function getCachedIdentity<T>(fingerprint: string): Promise<T | null> {
+  const exact = await readEntry<T>("images", fingerprint)
+  if (exact) return exact.value
+
+  let files: string[]
+  try {
+    files = await fs.readdir(path.join(getCacheDir(), "images"))
+  } catch (error) {
+    return null
+  }
+
+  const maxDistance = getHashDistance()
+  const nearest = files
+    .filter((file) => /^[0-9a-f]{16}\.json$/.test(file))
+    .map((file) => file.slice(0, 16))
+    .map((hash) => ({ hash, distance: hammingDistance(hash, fingerprint) }))
+    .filter((candidate) => candidate.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+
+  for (const candidate of nearest) {
+    const entry = await readEntry<T>("images", candidate.hash)
+    if (entry) {
+      console.log(`Image cache near match: ${candidate.hash} is ${candidate.distance} bits from ${fingerprint}`)
+      return entry.value
+    }
+  }
+  return null
+}
+
+export async function setCachedIdentity<T>(fingerprint: string, value: T) {
+  await writeEntry("images", fingerprint, value)
+}
+
+export async function getCachedVolume<T>(volumeId: string): Promise<T | null> {
+  return (await readEntry<T>("volumes", volumeId))?.value ?? null
+}
+
+export async function setCachedVolume<T>(volumeId: string, value: T) {
+  await writeEntry("volumes", volumeId, value)
+}
+
+/**
+ * Deletes cached entries.
+ * @param {CacheLayer[]} layers - Layers to purge, defaults to both
+ * @returns {Object} - Number of entries removed per layer
+ */
+export async function purgeCache(layers: CacheLayer[] = CACHE_LAYERS) {
+  const removed: Partial<Record<CacheLayer, number>> = {}
+
+  for (const layer of layers) {
+    const dir = path.join(getCacheDir(), layer)
+    try {
+      removed[layer] = (await fs.readdir(dir)).filter((file) => file.endsWith(".json")).length
+    } catch (error) {
+      removed[layer] = 0
+    }
+    await fs.rm(dir, { recursive: true, force: true })
+  }
+
+  console.log("Purged cache:", removed)
+  return removed
+}
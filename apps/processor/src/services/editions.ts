@@ -0,0 +1,81 @@
+import { normalizeTitle, parseAuthorName } from "./bookVerification.js"
+import type { MetadataRecord } from "./metadataProvider.js"
+import type { EditionSummary, PreviewViewability } from "shared"
+
+/**
+ * Groups metadata records into works. Providers list every edition of a book as a
+ * separate record (hardback, paperback, reissues, translations), and only some of
+ * them have a preview. Editions are matched on their title without subtitle, series
+ * or edition notes, and on the first author's surname.
+ */
+
+export interface EditionCluster {
+  // Normalized title and author surname, e.g. "lord of the rings|tolkien"
+  key: string
+  records: MetadataRecord[]
+}
+
+/**
+ * The key shared by all editions of a work.
+ * @param {string} title - Edition title, with or without subtitle
+ * @param {string} author - First author, as "First Last" or "Last, First"
+ * @returns {string} - e.g. "lord of the rings|tolkien"
+ */
+export function getWorkKey(title: string | null | undefined, author: string | null | undefined) {
+  return `${normalizeTitle(title)}|${parseAuthorName(author).surname}`
+}
+
+/**
+ * Groups records into works, keeping the provider's order of both works and editions.
+ * @param {MetadataRecord[]} records - Search results, possibly from several providers
+ * @returns {EditionCluster[]} - One cluster per work
+ */
+export function clusterEditions(records: MetadataRecord[]): EditionCluster[] {
+  const clusters = new Map<string, EditionCluster>()
+  for (const record of records) {
+    const key = getWorkKey(record.title, record.authors[0])
+    const cluster = clusters.get(key) || { key, records: [] }
+    cluster.records.push(record)
+    clusters.set(key, cluster)
+  }
+  return [...clusters.values()]
+}
+
+// Full previews are as good as partial ones for the opening pages, so they only break ties
+const PREVIEW_RANK: Record<PreviewViewability, number> = { full: 2, partial: 1, none: 0, unknown: 0 }
+
+export function hasPreview(viewability: PreviewViewability | null | undefined) {
+  return viewability === "full" || viewability === "partial"
+}
+
+/**
+ * Picks the edition to take preview pages from.
+ * @param {MetadataRecord[]} editions - Editions of one work
+ * @param {string} language - The photographed edition's language; editions in it are preferred
+ * @returns {MetadataRecord|null} - The best previewable edition, or null if none has a preview
+ */
+export function selectPreviewEdition(editions: MetadataRecord[], language: string | null = null) {
+  // Pages are captured from the embedded viewer
+  const previewable = editions.filter(
+    (record) => hasPreview(record.viewability) && record.accessInfo.embeddable !== false,
+  )
+  if (previewable.length === 0) return null
+
+  const rank = (record: MetadataRecord) =>
+    (language && record.language === language ? 10 : 0) + PREVIEW_RANK[record.viewability]
+  // Stable sort keeps the provider's relevance order between equal ranks
+  return [...previewable].sort((a, b) => rank(b) - rank(a))[0]
+}
+
+export function toEditionSummary(record: MetadataRecord): EditionSummary {
+  return {
+    id: record.id,
+    source: record.source,
+    title: record.title,
+    publisher: record.publisher,
+    publishedDate: record.publishedDate,
+    language: record.language,
+    isbn: record.isbns[0] ?? null,
+    viewability: record.viewability,
+  }
+}
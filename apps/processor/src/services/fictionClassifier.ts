@@ -0,0 +1,278 @@
+import type { FictionClassification, FictionSignal, FictionSignalSource } from "shared"
+
+/**
+ * Decides whether a book is fiction, which picks the page we return (the second
+ * page for fiction, the first for non-fiction). Every piece of evidence becomes a
+ * weighted signal; positive weights point to fiction, negative to non-fiction.
+ * When the evidence is too weak (confidence below FICTION_CONFIDENCE_THRESHOLD,
+ * default 0.7) the label is "unknown" and the pipeline doesn't guess.
+ */
+
+export interface FictionClassifierInput {
+  title?: string | null
+  description?: string | null
+  // Subject headings, e.g. Google Books categories or Open Library subjects
+  categories?: string[]
+  // BISAC subject codes, e.g. FIC022000
+  bisacCodes?: string[]
+  // The identify stage's own guess from the cover, with its confidence
+  llmVote?: { isFiction: boolean; confidence: number } | null
+  // ISO 639-1 code; descriptions, titles and subjects are also checked for that language's words
+  language?: string | null
+}
+
+export interface FictionClassifier {
+  name: string
+  classify(input: FictionClassifierInput): FictionClassification
+}
+
+const DEFAULT_CONFIDENCE_THRESHOLD = 0.7
+
+export function getFictionThreshold() {
+  const threshold = Number(process.env.FICTION_CONFIDENCE_THRESHOLD)
+  return Number.isFinite(threshold) && threshold >= 0.5 && threshold <= 1 ? threshold : DEFAULT_CONFIDENCE_THRESHOLD
+}
+
+// BISAC major subjects that are (mostly) fiction: fiction, juvenile fiction, young adult fiction, comics
+const FICTION_BISAC_PREFIXES = ["FIC", "JUV", "YAF", "CGN"]
+// Poetry, drama, humor and literary collections are neither, so they carry no signal
+const NEUTRAL_BISAC_PREFIXES = ["POE", "DRA", "HUM", "LCO"]
+
+// Google Books categories are BISAC headings ("Fiction / Fantasy / Epic"); these are the
+// non-fiction ones, matched on the first level
+const NONFICTION_HEADINGS = [
+  "antiques & collectibles",
+  "architecture",
+  "art",
+  "bibles",
+  "biography & autobiography",
+  "body, mind & spirit",
+  "business & economics",
+  "computers",
+  "cooking",
+  "crafts & hobbies",
+  "design",
+  "education",
+  "family & relationships",
+  "foreign language study",
+  "games & activities",
+  "gardening",
+  "health & fitness",
+  "history",
+  "house & home",
+  "juvenile nonfiction",
+  "language arts & disciplines",
+  "law",
+  "literary criticism",
+  "mathematics",
+  "medical",
+  "music",
+  "nature",
+  "performing arts",
+  "pets",
+  "philosophy",
+  "photography",
+  "political science",
+  "psychology",
+  "reference",
+  "religion",
+  "science",
+  "self-help",
+  "social science",
+  "sports & recreation",
+  "study aids",
+  "technology & engineering",
+  "transportation",
+  "travel",
+  "true crime",
+  "young adult nonfiction",
+]
+
+const FICTION_TERMS = [
+  "novel", "fiction", "story", "adventure", "fantasy",
+  "protagonist", "character", "hero", "heroine", "magical", "romance",
+  "thriller", "mystery", "sci-fi", "science fiction", "dystopian",
+  "tale", "legend", "epic", "saga",
+]
+
+const NONFICTION_TERMS = [
+  "history of", "guide", "analysis", "research", "biography",
+  "autobiography", "memoir", "reference", "textbook", "handbook",
+  "manual", "investigation", "philosophy", "theory", "essays",
+  "practical", "step-by-step", "how to", "the science of", "true story",
+]
+
+const NONFICTION_TITLE = /^(how to|the art of|introduction to|an introduction to|guide to|a guide to|principles of|history of|a history of|the science of)\b/i
+
+interface LanguageTerms {
+  fiction: string[]
+  nonfiction: string[]
+  // Title openings of non-fiction ("Histoire de ...")
+  nonfictionTitle: RegExp
+  // The language's "a novel", as in "Der Vorleser: Roman"
+  novelTitle: RegExp
+  // Subject headings for novels, e.g. Open Library's "Romans, nouvelles"
+  fictionCategory: RegExp
+}
+
+// Words for the languages whose covers we see most besides English; checked in addition to English
+const LANGUAGE_TERMS: Record<string, LanguageTerms> = {
+  fr: {
+    fiction: ["roman", "récit", "conte", "aventure", "héros", "héroïne", "personnage", "intrigue", "polar", "fantastique", "saga"],
+    nonfiction: ["histoire de", "guide", "essai", "analyse", "biographie", "mémoires", "manuel", "enquête", "philosophie", "théorie", "pratique"],
+    nonfictionTitle: /^(comment|l'art de|l’art de|introduction à|une introduction à|guide d[eu]|petite histoire d[eu]|histoire d[eu]|principes d[eu])(?!\p{L})/iu,
+    novelTitle: /(?<!\p{L})roman$/iu,
+    fictionCategory: /(?<!\p{L})(romans?|nouvelles|fiction)(?!\p{L})/iu,
+  },
+  de: {
+    fiction: ["roman", "erzählung", "abenteuer", "held", "heldin", "figur", "krimi", "thriller", "fantasy", "saga", "märchen"],
+    nonfiction: ["sachbuch", "ratgeber", "handbuch", "analyse", "biographie", "biografie", "autobiografie", "lehrbuch", "philosophie", "theorie", "praxis"],
+    nonfictionTitle: /^(wie man|die kunst de[rs]|einführung in|eine einführung in|geschichte de[rs]|handbuch|grundlagen de[rs])(?!\p{L})/iu,
+    novelTitle: /(?<!\p{L})roman$/iu,
+    fictionCategory: /(?<!\p{L})(roman|romane|belletristik|erzählungen)(?!\p{L})/iu,
+  },
+  es: {
+    fiction: ["novela", "relato", "cuento", "aventura", "héroe", "heroína", "personaje", "protagonista", "fantasía", "leyenda", "saga"],
+    nonfiction: ["historia de", "guía", "ensayo", "análisis", "biografía", "autobiografía", "memorias", "manual", "investigación", "filosofía", "teoría"],
+    nonfictionTitle: /^(cómo|el arte de|introducción a|una introducción a|guía de|historia de|breve historia de|principios de)(?!\p{L})/iu,
+    novelTitle: /(?<!\p{L})una novela$/iu,
+    fictionCategory: /(?<!\p{L})(novelas?|ficción)(?!\p{L})/iu,
+  },
+  it: {
+    fiction: ["romanzo", "racconto", "avventura", "eroe", "eroina", "personaggio", "protagonista", "fantasy", "giallo", "leggenda", "saga"],
+    nonfiction: ["storia di", "storia del", "guida", "saggio", "analisi", "biografia", "autobiografia", "memorie", "manuale", "filosofia", "teoria"],
+    nonfictionTitle: /^(come|l'arte d[ei]|l’arte d[ei]|introduzione a|guida a|guida al|storia d[ei]|breve storia d[ei]|principi d[ei])(?!\p{L})/iu,
+    novelTitle: /(?<!\p{L})romanzo$/iu,
+    fictionCategory: /(?<!\p{L})(romanzi|romanzo|narrativa)(?!\p{L})/iu,
+  },
+  pt: {
+    fiction: ["romance", "conto", "aventura", "herói", "heroína", "personagem", "protagonista", "fantasia", "lenda", "saga"],
+    nonfiction: ["história de", "história do", "guia", "ensaio", "análise", "biografia", "autobiografia", "memórias", "manual", "filosofia", "teoria"],
+    nonfictionTitle: /^(como|a arte de|introdução à|introdução ao|guia d[eo]|história d[aeo]|breve história d[aeo]|princípios d[eo])(?!\p{L})/iu,
+    novelTitle: /(?<!\p{L})um romance$/iu,
+    fictionCategory: /(?<!\p{L})(romances?|ficção)(?!\p{L})/iu,
+  },
+  nl: {
+    fiction: ["roman", "verhaal", "avontuur", "held", "heldin", "personage", "hoofdpersoon", "thriller", "fantasy", "sage"],
+    nonfiction: ["geschiedenis van", "gids", "handboek", "essay", "analyse", "biografie", "autobiografie", "memoires", "onderzoek", "filosofie", "theorie"],
+    nonfictionTitle: /^(hoe je|de kunst van|inleiding tot|een inleiding tot|gids voor|geschiedenis van|een geschiedenis van|beginselen van)(?!\p{L})/iu,
+    novelTitle: /(?<!\p{L})roman$/iu,
+    fictionCategory: /(?<!\p{L})(romans?|fictie)(?!\p{L})/iu,
+  },
+}
+
+// Caps per source, so a long subject list or description can't outweigh everything else
+const SOURCE_CAPS: Record<FictionSignalSource, number> = {
+  bisac: 4,
+  category: 3,
+  description: 1.5,
+  title: 1.5,
+  llm: 1.5,
+}
+
+function bisacSignals(codes: string[]): FictionSignal[] {
+  return codes.flatMap((code) => {
+    const prefix = code.trim().toUpperCase().slice(0, 3)
+    if (NEUTRAL_BISAC_PREFIXES.includes(prefix)) return []
+    const weight = FICTION_BISAC_PREFIXES.includes(prefix) ? 3 : -3
+    return [{ source: "bisac" as const, value: code, weight }]
+  })
+}
+
+function categorySignals(categories: string[], terms: LanguageTerms | null): FictionSignal[] {
+  return categories.flatMap((category) => {
+    const lower = category.toLowerCase()
+    const heading = lower.split("/")[0].trim()
+
+    if (/non-?fiction/.test(lower) || NONFICTION_HEADINGS.includes(heading)) {
+      return [{ source: "category" as const, value: category, weight: -1.5 }]
+    }
+    if (/fiction|novel/.test(lower) || terms?.fictionCategory.test(category)) {
+      return [{ source: "category" as const, value: category, weight: 1.5 }]
+    }
+    return []
+  })
+}
+
+function termSignals(description: string, terms: LanguageTerms | null): FictionSignal[] {
+  const text = description.toLowerCase()
+  // A word start that also works for accented letters, which \b doesn't treat as word characters
+  const matches = (term: string) => new RegExp(`(?<!\\p{L})${term}`, "u").test(text)
+  const fictionTerms = [...new Set([...FICTION_TERMS, ...(terms?.fiction || [])])]
+  const nonfictionTerms = [...new Set([...NONFICTION_TERMS, ...(terms?.nonfiction || [])])]
+
+  return [
+    ...fictionTerms.filter(matches).map((term) => ({ source: "description" as const, value: term, weight: 0.3 })),
+    ...nonfictionTerms.filter(matches).map((term) => ({ source: "description" as const, value: term, weight: -0.3 })),
+  ]
+}
+
+function titleSignals(title: string, terms: LanguageTerms | null): FictionSignal[] {
+  if (NONFICTION_TITLE.test(title) || terms?.nonfictionTitle.test(title)) {
+    return [{ source: "title", value: title, weight: -1.5 }]
+  }
+  if (/\ba novel\b/i.test(title) || terms?.novelTitle.test(title)) {
+    return [{ source: "title", value: title, weight: 1.5 }]
+  }
+  return []
+}
+
+function cappedScore(signals: FictionSignal[]) {
+  return (Object.keys(SOURCE_CAPS) as FictionSignalSource[]).reduce((score, source) => {
+    const total = signals.filter((signal) => signal.source === source).reduce((sum, signal) => sum + signal.weight, 0)
+    return score + Math.max(-SOURCE_CAPS[source], Math.min(SOURCE_CAPS[source], total))
+  }, 0)
+}
+
+/**
+ * Weighs BISAC codes, subject headings, description terms, title patterns and the
+ * identify stage's vote. Terms and title patterns are English plus, for French, German,
+ * Spanish, Italian, Portuguese and Dutch books, that language's.
+ */
+export const signalFictionClassifier: FictionClassifier = {
+  name: "signals",
+  classify(input) {
+    const terms = (input.language && LANGUAGE_TERMS[input.language]) || null
+    const signals: FictionSignal[] = [
+      ...bisacSignals(input.bisacCodes || []),
+      ...categorySignals(input.categories || [], terms),
+      ...termSignals(input.description || "", terms),
+      ...titleSignals(input.title || "", terms),
+    ]
+    if (input.llmVote) {
+      signals.push({
+        source: "llm",
+        value: input.llmVote.isFiction ? "fiction" : "nonfiction",
+        weight: (input.llmVote.isFiction ? 1.5 : -1.5) * input.llmVote.confidence,
+      })
+    }
+
+    // Logistic squash: no evidence gives 0.5, a single BISAC code about 0.95
+    const score = cappedScore(signals)
+    const confidence = Math.round((1 / (1 + Math.exp(-Math.abs(score)))) * 100) / 100
+    const label = confidence < getFictionThreshold() ? "unknown" : score > 0 ? "fiction" : "nonfiction"
+
+    return { label, confidence, signals }
+  },
+}
+
+/**
+ * Classifies a book as fiction, non-fiction or unknown.
+ * @param {FictionClassifierInput} input - Whatever is known about the book
+ * @param {FictionClassifier} classifier - Defaults to the signal classifier
+ * @returns {FictionClassification} - Label, confidence and the signals behind them
+ */
+export function classifyFiction(
+  input: FictionClassifierInput,
+  classifier: FictionClassifier = signalFictionClassifier,
+): FictionClassification {
+  return classifier.classify(input)
+}
+
+/**
+ * The classification as the `isFiction` flag used by the pipeline.
+ * @returns {boolean|null} - null when the book couldn't be classified
+ */
+export function toIsFiction(classification: FictionClassification) {
+  return classification.label === "unknown" ? null : classification.label === "fiction"
+}
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { scoreFirstPage } from "./firstPageDetector.js"
+
+const PROSE =
+  "It is a truth universally acknowledged, that a single man in possession of a good fortune, must be in want of a wife. " +
+  "However little known the feelings or views of such a man may be on his first entering a neighbourhood, this truth is so well fixed in the minds of the surrounding families, that he is considered the rightful property of some one or other of their daughters. " +
+  "My dear Mr. Bennet, said his lady to him one day, have you heard that Netherfield Park is let at last? " +
+  "Mr. Bennet replied that he had not. " +
+  "But it is, returned she; for Mrs. Long has just been here, and she told me all about it. " +
+  "Mr. Bennet made no answer, and his wife grew impatient with his silence as the afternoon went on and the tea grew cold. " +
+  "Do you not want to know who has taken it, cried his wife impatiently, and you want to tell me, and I have no objection to hearing it."
+
+describe("scoreFirstPage", () => {
+  it("takes a first chapter heading over dense prose for the first page", () => {
+    const score = scoreFirstPage(`CHAPTER I.\n\n${PROSE}`, { pageId: "PA1", confidence: 91 })
+    assert.equal(score.verdict, "first")
+    assert.deepEqual(score.signals, ["firstChapterHeading", "denseProse"])
+  })
+
+  it("knows a prologue and an unnumbered chapter in other languages", () => {
+    assert.equal(scoreFirstPage(`Prologue\n\n${PROSE}`).verdict, "first")
+    assert.equal(scoreFirstPage(`Capítulo primero\n\n${PROSE}`).verdict, "first")
+  })
+
+  it("leaves prose without a heading to the model", () => {
+    assert.equal(scoreFirstPage(PROSE).verdict, "ambiguous")
+  })
+
+  it("counts a later chapter heading against the page", () => {
+    const score = scoreFirstPage(`CHAPTER XII.\n\n${PROSE}`)
+    assert.deepEqual(score.signals, ["laterChapterHeading", "denseProse"])
+    assert.equal(score.score, 1)
+  })
+
+  it("recognizes a table of contents", () => {
+    const contents = "CONTENTS.\n\nIntroduction . . . . . . . Page 1\nChapter I . . . . . . . . 7\nChapter II . . . . . . . 44\nChapter III . . . . . . . 62"
+    const score = scoreFirstPage(contents)
+    assert.equal(score.verdict, "notFirst")
+    assert.ok(score.signals.includes("contentsHeading"))
+    assert.ok(score.signals.includes("contentsEntries"))
+  })
+
+  it("recognizes a copyright page", () => {
+    const copyright =
+      "Copyright © 2003 by the Estate of the Author\nAll rights reserved. No part of this book may be reproduced.\nISBN 978-0-306-40615-7\nPrinted in the United States of America\nFirst edition"
+    const score = scoreFirstPage(copyright, { pageId: "PP4" })
+    assert.equal(score.verdict, "notFirst")
+    assert.ok(score.signals.includes("copyrightTerms"))
+    assert.ok(score.signals.includes("frontMatterPageId"))
+  })
+
+  it("recognizes title pages and dedications", () => {
+    assert.deepEqual(scoreFirstPage("PRIDE AND PREJUDICE\n\nBY JANE AUSTEN").signals, ["sparse"])
+    const dedication = scoreFirstPage("To my mother,\nwho taught me to read")
+    assert.equal(dedication.verdict, "notFirst")
+    assert.deepEqual(dedication.signals, ["dedication", "sparse"])
+  })
+
+  it("counts a preface heading against the page", () => {
+    const score = scoreFirstPage(`PREFACE.\n\n${PROSE}`, { pageId: "PR7" })
+    assert.deepEqual(score.signals, ["frontMatterHeading", "denseProse", "frontMatterPageId"])
+    assert.equal(score.verdict, "ambiguous")
+  })
+
+  it("leaves pages with low OCR confidence to the model, whatever they score", () => {
+    const score = scoreFirstPage("PRIDE AND PREJUDICE", { confidence: 38 })
+    assert.equal(score.score, -3)
+    assert.equal(score.verdict, "ambiguous")
+    assert.ok(score.signals.includes("lowOcrConfidence"))
+  })
+})
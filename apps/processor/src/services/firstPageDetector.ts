@@ -0,0 +1,158 @@
+import type Tesseract from "tesseract.js"
+import { createOcrWorkerForLanguage, recognizePage } from "./ocrService.js"
+
+/**
+ * Decides whether a captured preview page is the first page of reading content, the way the
+ * firstPage-stage model does, but from the page's OCR text: front matter (title pages, tables
+ * of contents, copyright pages, dedications) is recognized locally and the model is only asked
+ * about the pages the heuristic can't settle.
+ *
+ * Set LOCAL_FIRST_PAGE_DETECTION=false to ask the model about every page.
+ */
+
+// Scores at or beyond these are decided locally; anything in between goes to the model. Picked
+// from the threshold sweep over fixtures/first-page (see the README)
+export const FIRST_PAGE_SCORE = 3
+export const NOT_FIRST_PAGE_SCORE = -2
+// Below this mean OCR confidence the text is too garbled to score
+const MIN_OCR_CONFIDENCE = 50
+// Headings are looked for among the first lines of text only
+const HEADING_LINES = 8
+
+const CHAPTER_WORDS = "chapter|chapitre|kapitel|cap[ií]tulo|capitolo|hoofdstuk"
+const FIRST_WORDS = "1|i|one|un|premier|eins|erstes|uno|primero|primo|um|primeiro|een|één"
+const FIRST_CHAPTER_HEADING = new RegExp(`^(?:${CHAPTER_WORDS})\\s+(?:${FIRST_WORDS})(?![\\p{L}\\p{N}])`, "iu")
+const PROLOGUE_HEADING = /^(?:prologue|prolog|prólogo|prologo|proloog)(?!\p{L})/iu
+const CHAPTER_HEADING = new RegExp(`^(?:${CHAPTER_WORDS})\\s+(?:\\d+|[ivxlc]+|\\p{L}+)(?!\\p{L})`, "iu")
+const CONTENTS_HEADING = /^(?:(?:table of )?contents|table des matières|sommaire|inhalt|inhaltsverzeichnis|índice|indice|sommario|sumário|inhoud)\.?$/iu
+const FRONT_MATTER_HEADING = /^(?:preface|foreword|acknowledge?ments?|introduction|avant-propos|préface|vorwort|einleitung|prefacio|prefazione|prefácio|voorwoord|inleiding)\.?$/iu
+// "Chapter 3 ........ 41", "Introduction . . . . Page 1" and "Chapter 3    41": entries of a table of contents
+const CONTENTS_ENTRY = /(?:\.\s?){4,}\s*(?:page\s+)?\d+\s*$|\S\s{2,}\d{1,3}$/
+const COPYRIGHT_TERMS =
+  /all rights reserved|tous droits réservés|alle rechte vorbehalten|todos los derechos reservados|tutti i diritti riservati|todos os direitos reservados|alle rechten voorbehouden|\bisbn\b|library of congress|cataloging|catalogue record|first published|published by|printed in|©|\(c\)\s*\d{4}|copyright/giu
+const DEDICATION_TERMS = /^(?:for|to|pour|à|für|para|per|voor)\s+\p{Lu}|^also by\b|^by the same author\b|^in memory of\b/imu
+const SENTENCE_END = /[.!?…]["'”’»)]?(?=\s|$)/g
+
+export type FirstPageVerdict = "first" | "notFirst" | "ambiguous"
+
+export interface FirstPageScore {
+  score: number
+  verdict: FirstPageVerdict
+  // Names of the signals that contributed, e.g. "firstChapterHeading", "contentsEntries"
+  signals: string[]
+}
+
+export interface FirstPageDecision {
+  isFirstPage: boolean
+  // "local" when the heuristic settled it, "model" when the firstPage-stage model was asked
+  checkedBy: "local" | "model"
+  score: FirstPageScore | null
+}
+
+export function isLocalFirstPageDetectionEnabled() {
+  return process.env.LOCAL_FIRST_PAGE_DETECTION !== "false"
+}
+
+/**
+ * Scores a page's OCR text for being the first page of reading content.
+ * @param {string} text - Raw OCR text, line breaks included
+ * @param {Object} options - The page's Google Books id and the OCR mean confidence (0-100), if known
+ * @returns {FirstPageScore} - Positive scores point to body text, negative ones to front matter
+ */
+export function scoreFirstPage(text: string, options: { pageId?: string | null; confidence?: number | null } = {}): FirstPageScore {
+  const signals: string[] = []
+  let score = 0
+  const add = (signal: string, points: number) => {
+    signals.push(signal)
+    score += points
+  }
+
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+  const headingLines = lines.slice(0, HEADING_LINES)
+  const words = text.match(/[\p{L}\p{N}]+/gu)?.length ?? 0
+  const sentences = text.match(SENTENCE_END)?.length ?? 0
+
+  // Headings
+  if (headingLines.some((line) => FIRST_CHAPTER_HEADING.test(line) || PROLOGUE_HEADING.test(line))) {
+    add("firstChapterHeading", 3)
+  } else if (headingLines.some((line) => CHAPTER_HEADING.test(line))) {
+    // Body text, but past the first page if the search started before it
+    add("laterChapterHeading", -1)
+  }
+  if (headingLines.some((line) => CONTENTS_HEADING.test(line))) add("contentsHeading", -3)
+  if (headingLines.some((line) => FRONT_MATTER_HEADING.test(line))) add("frontMatterHeading", -1)
+
+  // Front matter text
+  const contentsEntries = lines.filter((line) => CONTENTS_ENTRY.test(line)).length
+  if (contentsEntries >= 3) add("contentsEntries", -4)
+  const copyrightTerms = text.match(COPYRIGHT_TERMS)?.length ?? 0
+  if (copyrightTerms >= 2) add("copyrightTerms", -4)
+  else if (copyrightTerms === 1) add("copyrightTerm", -2)
+  if (words < 60 && headingLines.some((line) => DEDICATION_TERMS.test(line))) add("dedication", -2)
+
+  // Density: body pages are full of sentences, title pages and half-titles hold a few words
+  if (words < 25) add("sparse", -3)
+  else if (words >= 150 && sentences >= 5) add("denseProse", 2)
+  else if (words >= 60 && sentences >= 3) add("prose", 1)
+
+  // Google Books numbers front matter PP (unnumbered) and PR (roman numerals)
+  if (options.pageId && /^P[PR]\d+$/.test(options.pageId)) add("frontMatterPageId", -1)
+
+  let verdict: FirstPageVerdict =
+    score >= FIRST_PAGE_SCORE ? "first" : score <= NOT_FIRST_PAGE_SCORE ? "notFirst" : "ambiguous"
+  if (options.confidence !== null && options.confidence !== undefined && options.confidence < MIN_OCR_CONFIDENCE) {
+    signals.push("lowOcrConfidence")
+    verdict = "ambiguous"
+  }
+
+  return { score, verdict, signals }
+}
+
+/**
+ * Starts a detector for one book's preview. Pages are OCR'd with the book's language pack,
+ * on a worker that is kept for the whole preview; call close() when done with it.
+ * @param {Object} options - The book's language, and the model check to fall back to
+ * @returns {Object} - `check(base64, mimeType, pageId)` resolving to a FirstPageDecision, and `close()`
+ */
+export function createFirstPageDetector(options: {
+  language?: string | null
+  askModel: (base64: string, mimeType: string) => Promise<boolean>
+}) {
+  let worker: Promise<Tesseract.Worker> | null = null
+  // Set once OCR has failed, e.g. when the language data can't be downloaded
+  let ocrUnavailable = false
+
+  const scorePage = async (base64: string, pageId: string | null) => {
+    if (ocrUnavailable || !isLocalFirstPageDetectionEnabled()) return null
+    try {
+      worker ??= createOcrWorkerForLanguage(options.language)
+      const { text, confidence } = await recognizePage(base64, await worker)
+      return scoreFirstPage(text, { pageId, confidence })
+    } catch (error) {
+      console.error("Local first page detection unavailable, asking the model instead:", error)
+      ocrUnavailable = true
+      return null
+    }
+  }
+
+  return {
+    async check(base64: string, mimeType: string, pageId: string | null): Promise<FirstPageDecision> {
+      const score = await scorePage(base64, pageId)
+      if (score) console.log(`First page score ${score.score} (${score.verdict}): ${score.signals.join(", ") || "no signals"}`)
+
+      if (score && score.verdict !== "ambiguous") {
+        return { isFirstPage: score.verdict === "first", checkedBy: "local", score }
+      }
+      return { isFirstPage: await options.askModel(base64, mimeType), checkedBy: "model", score }
+    },
+
+    async close() {
+      const started = worker
+      worker = null
+      if (started) await (await started.catch(() => null))?.terminate()
+    },
+  }
+}
@@ -0,0 +1,247 @@
+import axios from "axios"
+
+/**
+ * Google Books API client. Adds the API key when GOOGLE_BOOKS_API_KEY is set, times
+ * requests out after GOOGLE_BOOKS_TIMEOUT_MS, retries rate limits (429), server errors
+ * and network failures with exponential backoff and jitter, and counts requests against
+ * a local daily quota (GOOGLE_BOOKS_DAILY_QUOTA) so a busy day fails fast instead of
+ * hammering an exhausted key.
+ */
+
+const GOOGLE_BOOKS_URL = "https://www.googleapis.com/books/v1/volumes"
+
+const DEFAULT_TIMEOUT_MS = 10_000
+const DEFAULT_MAX_RETRIES = 3
+const DEFAULT_RETRY_BASE_MS = 500
+// Google's default per-project quota
+const DEFAULT_DAILY_QUOTA = 1000
+
+export interface GoogleIndustryIdentifier {
+  type: "ISBN_10" | "ISBN_13" | "ISSN" | "OTHER" | string
+  identifier: string
+}
+
+export interface GoogleImageLinks {
+  smallThumbnail?: string
+  thumbnail?: string
+  small?: string
+  medium?: string
+  large?: string
+  extraLarge?: string
+}
+
+export interface GoogleVolumeInfo {
+  title?: string
+  subtitle?: string
+  authors?: string[]
+  publisher?: string
+  publishedDate?: string
+  description?: string
+  industryIdentifiers?: GoogleIndustryIdentifier[]
+  pageCount?: number
+  categories?: string[]
+  language?: string
+  imageLinks?: GoogleImageLinks
+  previewLink?: string
+  infoLink?: string
+}
+
+export interface GoogleAccessInfo {
+  viewability?: "ALL_PAGES" | "PARTIAL" | "NO_PAGES" | "UNKNOWN"
+  embeddable?: boolean
+  publicDomain?: boolean
+  country?: string
+}
+
+export interface GoogleVolume {
+  id: string
+  volumeInfo?: GoogleVolumeInfo
+  accessInfo?: GoogleAccessInfo
+}
+
+export interface GoogleVolumesResponse {
+  totalItems: number
+  items?: GoogleVolume[]
+}
+
+export type GoogleBooksErrorKind = "notFound" | "upstream"
+
+/**
+ * A failed Google Books request. `kind` tells a volume that doesn't exist ("notFound")
+ * apart from Google Books failing to answer ("upstream": timeouts, rate limits, server
+ * errors, an exhausted quota).
+ */
+export class GoogleBooksError extends Error {
+  kind: GoogleBooksErrorKind
+  // HTTP status of the last attempt; null for timeouts, network errors and the local quota
+  status: number | null
+
+  constructor(kind: GoogleBooksErrorKind, message: string, status: number | null = null) {
+    super(message)
+    this.name = "GoogleBooksError"
+    this.kind = kind
+    this.status = status
+  }
+}
+
+/**
+ * Sends one GET request and resolves with the response, whatever its status; rejects only
+ * when no response arrived. Replaced by the fake stand-in when METADATA_HTTP=fake.
+ */
+export type GoogleBooksTransport = (url: string, timeoutMs: number) => Promise<{ status: number; data: any; retryAfter?: string | null }>
+
+const axiosTransport: GoogleBooksTransport = async (url, timeoutMs) => {
+  const response = await axios.get(url, { timeout: timeoutMs, validateStatus: () => true })
+  return { status: response.status, data: response.data, retryAfter: response.headers["retry-after"] ?? null }
+}
+
+function readPositiveInt(value: string | undefined, fallback: number) {
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback
+}
+
+function getTimeoutMs() {
+  return readPositiveInt(process.env.GOOGLE_BOOKS_TIMEOUT_MS, DEFAULT_TIMEOUT_MS)
+}
+
+function getMaxRetries() {
+  const retries = Number(process.env.GOOGLE_BOOKS_MAX_RETRIES)
+  return Number.isInteger(retries) && retries >= 0 ? retries : DEFAULT_MAX_RETRIES
+}
+
+function getRetryBaseMs() {
+  return readPositiveInt(process.env.GOOGLE_BOOKS_RETRY_BASE_MS, DEFAULT_RETRY_BASE_MS)
+}
+
+function getDailyQuota() {
+  return readPositiveInt(process.env.GOOGLE_BOOKS_DAILY_QUOTA, DEFAULT_DAILY_QUOTA)
+}
+
+// Requests sent today (UTC), including retries; resets when the date changes
+const usage = { date: "", requests: 0 }
+
+function today() {
+  return new Date().toISOString().slice(0, 10)
+}
+
+function takeQuota() {
+  if (usage.date !== today()) {
+    usage.date = today()
+    usage.requests = 0
+  }
+  if (usage.requests >= getDailyQuota()) {
+    throw new GoogleBooksError("upstream", `Google Books daily quota of ${getDailyQuota()} requests used up`)
+  }
+  usage.requests++
+}
+
+/**
+ * Today's request count, for /health.
+ */
+export function getGoogleBooksUsage() {
+  return {
+    date: today(),
+    requests: usage.date === today() ? usage.requests : 0,
+    dailyQuota: getDailyQuota(),
+    apiKeyConfigured: !!process.env.GOOGLE_BOOKS_API_KEY,
+  }
+}
+
+function isRetryable(status: number) {
+  return status === 429 || status >= 500
+}
+
+/**
+ * Exponential backoff with jitter: base * 2^attempt, scaled by 50-100% so retries spread out.
+ * @returns {number|null} - The delay in ms; null when Retry-After asks for longer than a request
+ *   may take, which isn't worth holding the job for
+ */
+function getBackoffMs(attempt: number, retryAfter?: string | null) {
+  const retryAfterSeconds = Number(retryAfter)
+  if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0) {
+    return retryAfterSeconds * 1000 <= getTimeoutMs() ? retryAfterSeconds * 1000 : null
+  }
+  return Math.round(getRetryBaseMs() * 2 ** attempt * (0.5 + Math.random() / 2))
+}
+
+function withApiKey(url: string) {
+  const key = process.env.GOOGLE_BOOKS_API_KEY
+  return key ? `${url}${url.includes("?") ? "&" : "?"}key=${encodeURIComponent(key)}` : url
+}
+
+async function request(url: string, transport: GoogleBooksTransport, notFoundMessage: string) {
+  const fullUrl = withApiKey(url)
+  const maxRetries = getMaxRetries()
+
+  for (let attempt = 0; ; attempt++) {
+    takeQuota()
+
+    let failure: GoogleBooksError
+    let retryAfter: string | null | undefined = null
+    try {
+      const response = await transport(fullUrl, getTimeoutMs())
+      if (response.status >= 200 && response.status < 300) {
+        return response.data
+      }
+      if (response.status === 404) {
+        throw new GoogleBooksError("notFound", notFoundMessage, 404)
+      }
+
+      const detail = response.data?.error?.message || `status ${response.status}`
+      failure = new GoogleBooksError("upstream", `Google Books request failed (${detail})`, response.status)
+      if (!isRetryable(response.status)) throw failure
+      retryAfter = response.retryAfter
+    } catch (error) {
+      if (error instanceof GoogleBooksError) throw error
+      // No response: timeout, DNS or connection failure
+      const reason = axios.isAxiosError(error) && error.code === "ECONNABORTED" ? "timed out" : (error as Error).message
+      failure = new GoogleBooksError("upstream", `Google Books request failed (${reason})`)
+    }
+
+    if (attempt >= maxRetries) {
+      failure.message += ` after ${attempt + 1} attempts`
+      throw failure
+    }
+    const delay = getBackoffMs(attempt, retryAfter)
+    if (delay === null) {
+      failure.message += `, retry after ${retryAfter}s`
+      throw failure
+    }
+    // Logged without the API key
+    console.log(`${failure.message} for ${url}, retrying in ${delay}ms`)
+    await new Promise((resolve) => setTimeout(resolve, delay))
+  }
+}
+
+export interface SearchVolumesOptions {
+  // 1-40, default 10
+  maxResults?: number
+  // ISO 639-1 code; only volumes in that language are returned
+  langRestrict?: string | null
+}
+
+/**
+ * Full-text volume search; supports Google's field prefixes (isbn:, intitle:, inauthor:).
+ * @param {string} query - Search query
+ * @param {SearchVolumesOptions} options - Result count and language restriction
+ * @returns {GoogleVolumesResponse} - Matching volumes; `items` is missing when there are none
+ */
+export async function searchVolumes(
+  query: string,
+  options: SearchVolumesOptions = {},
+  transport: GoogleBooksTransport = axiosTransport,
+): Promise<GoogleVolumesResponse> {
+  const limit = Math.min(Math.max(options.maxResults ?? 10, 1), 40)
+  const langRestrict = options.langRestrict ? `&langRestrict=${encodeURIComponent(options.langRestrict)}` : ""
+  const url = `${GOOGLE_BOOKS_URL}?q=${encodeURIComponent(query)}&maxResults=${limit}${langRestrict}`
+  return request(url, transport, `No Google Books results for ${query}`)
+}
+
+/**
+ * Fetches one volume.
+ * @param {string} id - Google Books volume id
+ * @returns {GoogleVolume} - The volume; rejects with a "notFound" GoogleBooksError if it doesn't exist
+ */
+export async function getVolume(id: string, transport: GoogleBooksTransport = axiosTransport): Promise<GoogleVolume> {
+  return request(`${GOOGLE_BOOKS_URL}/${encodeURIComponent(id)}`, transport, `Google Books volume not found: ${id}`)
+}
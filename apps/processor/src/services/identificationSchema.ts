@@ -0,0 +1,150 @@
+import { z } from "zod"
+import { normalizeLanguage } from "./language.js"
+
+/**
+ * Schema for the book details read off a cover by the identify stage.
+ * Model output is normalized before validation so variants such as `ISBN`,
+ * `authors: [...]` or `"genre": "Non-Fiction"` still parse.
+ */
+
+const confidenceSchema = z.number().min(0).max(1).describe("0 = guess, 1 = clearly legible on the cover")
+
+export const bookIdentificationSchema = z.preprocess(
+  normalizeIdentificationOutput,
+  z.object({
+    title: z.string().nullable().describe("Book title as printed on the cover, without the subtitle"),
+    author: z.string().nullable().describe("Author name(s) as printed on the cover"),
+    isbn: z.string().nullable().describe("ISBN-10 or ISBN-13 if visible, digits only"),
+    isFiction: z.boolean().nullable().describe("Whether the book appears to be fiction"),
+    language: z.string().nullable().describe("ISO 639-1 code of the language the cover is written in"),
+    confidence: z.object({
+      title: confidenceSchema,
+      author: confidenceSchema,
+      isbn: confidenceSchema,
+      isFiction: confidenceSchema,
+    }),
+  }),
+)
+
+export type BookIdentification = z.infer<typeof bookIdentificationSchema>
+
+// Lower-cased, punctuation-free key variants models commonly use, mapped to our field names
+const KEY_ALIASES: Record<string, string> = {
+  title: "title",
+  booktitle: "title",
+  name: "title",
+  author: "author",
+  authors: "author",
+  authorname: "author",
+  writer: "author",
+  isbn: "isbn",
+  isbn13: "isbn",
+  isbn10: "isbn",
+  isfiction: "isFiction",
+  fiction: "isFiction",
+  genre: "isFiction",
+  type: "isFiction",
+  category: "isFiction",
+  fictionornonfiction: "isFiction",
+  language: "language",
+  lang: "language",
+  languagecode: "language",
+  confidence: "confidence",
+  confidences: "confidence",
+  confidencescores: "confidence",
+}
+
+const EMPTY_VALUES = ["", "null", "none", "unknown", "n/a", "not visible"]
+
+function aliasKey(key: string) {
+  return KEY_ALIASES[key.toLowerCase().replace(/[^a-z0-9]/g, "")]
+}
+
+function normalizeText(value: unknown) {
+  if (Array.isArray(value)) {
+    value = value.filter((item) => typeof item === "string").join(", ")
+  }
+  if (typeof value !== "string") return value ?? null
+
+  const trimmed = value.trim()
+  return EMPTY_VALUES.includes(trimmed.toLowerCase()) ? null : trimmed
+}
+
+function normalizeIsbnText(value: unknown) {
+  // Numbers lose leading zeros and ISBN-10 check characters, but are still better than nothing
+  if (typeof value === "number") return String(value)
+  return normalizeText(typeof value === "string" ? value.replace(/^isbn[-\s:]*/i, "") : value)
+}
+
+function normalizeFiction(value: unknown) {
+  if (typeof value === "boolean" || value === null || value === undefined) return value ?? null
+  if (typeof value !== "string") return value
+
+  const lower = value.trim().toLowerCase()
+  if (/non[\s-]?fiction/.test(lower) || lower === "false" || lower === "no") return false
+  if (/fiction|novel/.test(lower) || lower === "true" || lower === "yes") return true
+  return EMPTY_VALUES.includes(lower) ? null : value
+}
+
+function normalizeConfidence(value: unknown) {
+  if (!value || typeof value !== "object") return value
+
+  const confidence: Record<string, unknown> = {}
+  for (const [key, score] of Object.entries(value)) {
+    const field = aliasKey(key)
+    if (!field || field === "confidence") continue
+
+    const number = typeof score === "string" ? Number.parseFloat(score) : score
+    // Accept percentages as well as 0-1 scores
+    confidence[field] = typeof number === "number" && number > 1 && number <= 100 ? number / 100 : number
+  }
+  return confidence
+}
+
+/**
+ * Maps whatever the model returned onto the schema's field names and value types.
+ * @param {unknown} output - Parsed JSON from the model
+ * @returns {unknown} - Normalized object, still to be validated by the schema
+ */
+export function normalizeIdentificationOutput(output: unknown) {
+  if (!output || typeof output !== "object" || Array.isArray(output)) return output
+
+  const normalized: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(output)) {
+    const field = aliasKey(key)
+    // Keep the first value when several aliases map to the same field
+    if (!field || field in normalized) continue
+    normalized[field] = value
+  }
+
+  return {
+    title: normalizeText(normalized.title),
+    author: normalizeText(normalized.author),
+    isbn: normalizeIsbnText(normalized.isbn),
+    isFiction: normalizeFiction(normalized.isFiction),
+    // Models write "French" as often as "fr"; a language we can't map is as good as none
+    language: normalizeLanguage(normalizeText(normalized.language) as string | null),
+    confidence: normalizeConfidence(normalized.confidence),
+  }
+}
+
+/**
+ * Tries to recover a valid identification from raw model text, e.g. JSON wrapped
+ * in a code fence or followed by prose.
+ * @param {string} text - Raw model output
+ * @returns {BookIdentification|null} - Parsed identification, or null if none could be recovered
+ */
+export function salvageIdentification(text: string | undefined): BookIdentification | null {
+  if (!text) return null
+
+  const unfenced = text.replace(/```(?:json)?/gi, "")
+  const jsonMatch = unfenced.match(/\{[\s\S]*\}/)
+  if (!jsonMatch) return null
+
+  try {
+    const result = bookIdentificationSchema.safeParse(JSON.parse(jsonMatch[0]))
+    return result.success ? result.data : null
+  } catch (error) {
+    return null
+  }
+}
@@ -0,0 +1,174 @@
+import sharp from "sharp"
+
+/**
+ * Normalizes uploaded photos before they reach the vision models: applies the
+ * EXIF orientation, optionally trims the background around the book, downscales
+ * to IMAGE_MAX_EDGE pixels and re-encodes as IMAGE_FORMAT (jpeg or webp) without
+ * metadata. Phone photos shrink from several MB to a few hundred KB.
+ */
+
+export type OutputFormat = "jpeg" | "webp"
+
+export interface PreprocessOptions {
+  maxEdge?: number
+  format?: OutputFormat
+  quality?: number
+  autoCrop?: boolean
+}
+
+interface ImageDescription {
+  format: string | null
+  width: number | null
+  height: number | null
+  bytes: number
+}
+
+/**
+ * Record of what preprocessing did to an upload, returned in the result for debugging.
+ */
+export interface ImageTransform {
+  original: ImageDescription & { orientation: number | null }
+  output: ImageDescription
+  // Operations applied, in order, e.g. ["rotate:6", "crop:12,40,800x1200", "resize:1600", "encode:jpeg@85"]
+  steps: string[]
+  crop: { left: number; top: number; width: number; height: number } | null
+  durationMs: number
+}
+
+export interface PreprocessedImage {
+  buffer: Buffer
+  mimeType: string
+  transform: ImageTransform
+}
+
+const DEFAULT_MAX_EDGE = 1600
+const DEFAULT_QUALITY = 85
+// How far (0-255) a pixel may differ from the background colour and still be trimmed
+const AUTO_CROP_THRESHOLD = 30
+
+function getDefaultOptions(): Required<PreprocessOptions> {
+  const maxEdge = Number(process.env.IMAGE_MAX_EDGE)
+  const quality = Number(process.env.IMAGE_QUALITY)
+  return {
+    maxEdge: Number.isInteger(maxEdge) && maxEdge > 0 ? maxEdge : DEFAULT_MAX_EDGE,
+    format: process.env.IMAGE_FORMAT === "webp" ? "webp" : "jpeg",
+    quality: Number.isInteger(quality) && quality > 0 && quality <= 100 ? quality : DEFAULT_QUALITY,
+    autoCrop: process.env.IMAGE_AUTO_CROP === "true",
+  }
+}
+
+/**
+ * Finds the book's bounding rectangle by trimming the background colour
+ * (taken from the top-left pixel) off the oriented image.
+ * @returns {Object|null} - Region to extract, or null when there is nothing to trim
+ */
+async function findCropRect(imageBuffer: Buffer, width: number | null, height: number | null) {
+  if (!width || !height) return null
+
+  try {
+    const { info } = await sharp(imageBuffer)
+      .rotate()
+      .trim({ threshold: AUTO_CROP_THRESHOLD })
+      .raw()
+      .toBuffer({ resolveWithObject: true })
+
+    const left = -(info.trimOffsetLeft ?? 0)
+    const top = -(info.trimOffsetTop ?? 0)
+    // Ignore trims that keep nearly everything, or leave too little to be a whole cover
+    const keptArea = (info.width * info.height) / (width * height)
+    if (keptArea > 0.98 || keptArea < 0.1) return null
+
+    return { left, top, width: info.width, height: info.height }
+  } catch (error) {
+    console.error("Error finding crop rectangle, skipping auto-crop:", error)
+    return null
+  }
+}
+
+// HEIC/HEIF files start with an ISO-BMFF "ftyp" box naming one of these brands
+const HEIC_BRANDS = ["heic", "heix", "hevc", "hevx", "mif1", "msf1"]
+
+function isHeic(buffer: Buffer) {
+  const brand = buffer.subarray(8, 12).toString("ascii")
+  return buffer.subarray(4, 8).toString("ascii") === "ftyp" && HEIC_BRANDS.includes(brand)
+}
+
+/**
+ * Prepares an uploaded image for the vision stages.
+ * @param {Buffer} imageBuffer - Image as uploaded
+ * @param {PreprocessOptions} options - Overrides for the IMAGE_* environment settings
+ * @returns {PreprocessedImage} - Re-encoded image and a record of the transform
+ */
+export async function preprocessImage(imageBuffer: Buffer, options: PreprocessOptions = {}): Promise<PreprocessedImage> {
+  const started = Date.now()
+  const settings = { ...getDefaultOptions(), ...options }
+
+  if (isHeic(imageBuffer) && !sharp.format.heif.input.buffer) {
+    throw new Error(
+      "HEIC images are not supported by this server's image library. Please upload a JPEG or PNG, or change your camera's format to \"Most Compatible\".",
+    )
+  }
+
+  let metadata: sharp.Metadata
+  try {
+    metadata = await sharp(imageBuffer).metadata()
+  } catch (error) {
+    throw new Error(`Could not read the uploaded image: ${error instanceof Error ? error.message : "Unknown error"}`)
+  }
+
+  // Dimensions after orientation, i.e. as the crop and resize see the image
+  const swapsAxes = (metadata.orientation ?? 1) >= 5
+  const orientedWidth = (swapsAxes ? metadata.height : metadata.width) ?? null
+  const orientedHeight = (swapsAxes ? metadata.width : metadata.height) ?? null
+
+  const steps: string[] = []
+  // Auto-orient first so cropping and resizing see the image the right way up
+  let pipeline = sharp(imageBuffer).rotate()
+  if (metadata.orientation && metadata.orientation > 1) {
+    steps.push(`rotate:${metadata.orientation}`)
+  }
+
+  const crop = settings.autoCrop ? await findCropRect(imageBuffer, orientedWidth, orientedHeight) : null
+  if (crop) {
+    pipeline = pipeline.extract(crop)
+    steps.push(`crop:${crop.left},${crop.top},${crop.width}x${crop.height}`)
+  }
+
+  const croppedWidth = crop?.width ?? orientedWidth
+  const croppedHeight = crop?.height ?? orientedHeight
+  if (croppedWidth && croppedHeight && Math.max(croppedWidth, croppedHeight) > settings.maxEdge) {
+    pipeline = pipeline.resize({ width: settings.maxEdge, height: settings.maxEdge, fit: "inside" })
+    steps.push(`resize:${settings.maxEdge}`)
+  }
+
+  pipeline =
+    settings.format === "webp"
+      ? pipeline.webp({ quality: settings.quality })
+      : pipeline.jpeg({ quality: settings.quality, mozjpeg: true })
+  steps.push(`encode:${settings.format}@${settings.quality}`)
+
+  // sharp drops EXIF, ICC and XMP metadata unless withMetadata() is called
+  const { data, info } = await pipeline.toBuffer({ resolveWithObject: true })
+
+  const transform: ImageTransform = {
+    original: {
+      format: metadata.format ?? null,
+      width: orientedWidth,
+      height: orientedHeight,
+      bytes: imageBuffer.length,
+      orientation: metadata.orientation ?? null,
+    },
+    output: {
+      format: info.format,
+      width: info.width,
+      height: info.height,
+      bytes: data.length,
+    },
+    steps,
+    crop,
+    durationMs: Date.now() - started,
+  }
+
+  console.log("Preprocessed image:", transform)
+  return { buffer: data, mimeType: `image/${settings.format}`, transform }
+}
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import type { Isbn10, Isbn13 } from "shared"
+import { getIsbnFields, hyphenateIsbn, isValidIsbn10, isValidIsbn13, parseIsbn, toIsbn10, toIsbn13 } from "./isbn.js"
+
+describe("check digits", () => {
+  it("accepts ISBNs with the right check digit", () => {
+    assert.equal(isValidIsbn10("0306406152"), true)
+    assert.equal(isValidIsbn10("080442957X"), true)
+    assert.equal(isValidIsbn13("9780306406157"), true)
+    assert.equal(isValidIsbn13("9791090636071"), true)
+  })
+
+  it("rejects ISBNs with a wrong check digit", () => {
+    assert.equal(isValidIsbn10("0306406153"), false)
+    assert.equal(isValidIsbn10("0804429570"), false)
+    assert.equal(isValidIsbn13("9780306406158"), false)
+  })
+
+  it("rejects 13-digit numbers outside the 978 and 979 prefixes", () => {
+    // 977 is the ISSN prefix; the check digit is right for it
+    assert.equal(isValidIsbn13("9770306406158"), false)
+  })
+})
+
+describe("ISBN-10 and ISBN-13 conversion", () => {
+  it("converts an ISBN-10 to its 978 ISBN-13", () => {
+    assert.equal(toIsbn13("0306406152" as Isbn10), "9780306406157")
+    assert.equal(toIsbn13("080442957X" as Isbn10), "9780804429573")
+  })
+
+  it("converts a 978 ISBN-13 back, including an X check digit", () => {
+    assert.equal(toIsbn10("9780306406157" as Isbn13), "0306406152")
+    assert.equal(toIsbn10("9780804429573" as Isbn13), "080442957X")
+  })
+
+  it("has no ISBN-10 for 979 ISBNs", () => {
+    assert.equal(toIsbn10("9791090636071" as Isbn13), null)
+  })
+})
+
+describe("parseIsbn", () => {
+  it("reads the notations found on covers and in model output", () => {
+    for (const input of ["ISBN 0-306-40615-2", "978 0306 406157", "isbn13: 9780306406157", "ISBN-10 0306406152"]) {
+      const parsed = parseIsbn(input)
+      assert.ok(parsed.valid, input)
+      assert.equal(parsed.isbn13, "9780306406157")
+      assert.equal(parsed.isbn10, "0306406152")
+    }
+  })
+
+  it("says why an ISBN isn't valid", () => {
+    assert.deepEqual(parseIsbn(""), { valid: false, reason: "empty" })
+    assert.deepEqual(parseIsbn("0-306-40615-3"), { valid: false, reason: `"0-306-40615-3" has a wrong ISBN-10 check digit` })
+    assert.deepEqual(parseIsbn("12345"), { valid: false, reason: `"12345" has 5 characters, expected 10 or 13` })
+  })
+})
+
+describe("hyphenateIsbn", () => {
+  it("splits at the registrant ranges of groups 978-0 and 978-1", () => {
+    assert.equal(hyphenateIsbn("9780306406157" as Isbn13), "978-0-306-40615-7")
+    assert.equal(hyphenateIsbn("9780743273565" as Isbn13), "978-0-7432-7356-5")
+    assert.equal(hyphenateIsbn("9780804429573" as Isbn13), "978-0-8044-2957-3")
+    assert.equal(hyphenateIsbn("9781861972712" as Isbn13), "978-1-86197-271-2")
+  })
+
+  it("leaves groups whose ranges aren't known unhyphenated", () => {
+    assert.equal(hyphenateIsbn("9783866801929" as Isbn13), null)
+    assert.equal(hyphenateIsbn("9791090636071" as Isbn13), null)
+  })
+})
+
+describe("getIsbnFields", () => {
+  it("fills every field from either form", () => {
+    const expected = { isbn: "9780306406157", isbn10: "0306406152", isbnHyphenated: "978-0-306-40615-7" }
+    assert.deepEqual(getIsbnFields("0306406152"), expected)
+    assert.deepEqual(getIsbnFields("978-0-306-40615-7"), expected)
+  })
+
+  it("clears every field for an invalid ISBN", () => {
+    assert.deepEqual(getIsbnFields("not an isbn"), { isbn: null, isbn10: null, isbnHyphenated: null })
+  })
+})
@@ -0,0 +1,147 @@
+import type { Isbn10, Isbn13 } from "shared"
+
+/**
+ * ISBN parsing and formatting. Accepts ISBNs the way they turn up on covers and in
+ * model output ("ISBN 0-306-40615-2", "978 0306 406157", "isbn13: 9780306406157"),
+ * validates the check digit and normalizes to the ISBN-13 used everywhere else.
+ */
+
+export type IsbnParseResult =
+  | { valid: true; isbn13: Isbn13; isbn10: Isbn10 | null; inputFormat: "isbn10" | "isbn13" }
+  | { valid: false; reason: string }
+
+/**
+ * Strips labels, spaces and hyphens.
+ * @param {string} input - ISBN as printed or returned by a model
+ * @returns {string} - Digits (and a trailing X for ISBN-10s), upper-cased
+ */
+export function cleanIsbn(input: string) {
+  return input
+    .replace(/^\s*isbn(?:[-\s]?1[03])?\s*[:#]?\s*/i, "")
+    .replace(/[\s\-‐‑–.]/g, "")
+    .toUpperCase()
+}
+
+function isbn10CheckDigit(first9: string) {
+  const sum = first9.split("").reduce((total, digit, index) => total + Number(digit) * (10 - index), 0)
+  const check = (11 - (sum % 11)) % 11
+  return check === 10 ? "X" : String(check)
+}
+
+function isbn13CheckDigit(first12: string) {
+  const sum = first12.split("").reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0)
+  return String((10 - (sum % 10)) % 10)
+}
+
+export function isValidIsbn10(isbn: string) {
+  return /^\d{9}[\dX]$/.test(isbn) && isbn10CheckDigit(isbn.slice(0, 9)) === isbn[9]
+}
+
+export function isValidIsbn13(isbn: string) {
+  return /^97[89]\d{10}$/.test(isbn) && isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12]
+}
+
+/**
+ * Converts a valid ISBN-10 to its ISBN-13 (978 prefix).
+ */
+export function toIsbn13(isbn10: Isbn10): Isbn13 {
+  const first12 = `978${isbn10.slice(0, 9)}`
+  return `${first12}${isbn13CheckDigit(first12)}` as Isbn13
+}
+
+/**
+ * Converts a valid ISBN-13 to its ISBN-10.
+ * @returns {Isbn10|null} - null for 979 ISBNs, which have no ISBN-10
+ */
+export function toIsbn10(isbn13: Isbn13): Isbn10 | null {
+  if (!isbn13.startsWith("978")) return null
+  const first9 = isbn13.slice(3, 12)
+  return `${first9}${isbn10CheckDigit(first9)}` as Isbn10
+}
+
+/**
+ * Parses and validates an ISBN-10 or ISBN-13.
+ * @param {string} input - ISBN in any common notation
+ * @returns {IsbnParseResult} - The normalized ISBN-13 (and ISBN-10 when one exists), or why it isn't valid
+ */
+export function parseIsbn(input: string | null | undefined): IsbnParseResult {
+  if (!input || !input.trim()) {
+    return { valid: false, reason: "empty" }
+  }
+
+  const isbn = cleanIsbn(input)
+  if (isbn.length === 10) {
+    if (!/^\d{9}[\dX]$/.test(isbn)) return { valid: false, reason: `"${input}" is not an ISBN-10` }
+    if (!isValidIsbn10(isbn)) return { valid: false, reason: `"${input}" has a wrong ISBN-10 check digit` }
+    return { valid: true, isbn13: toIsbn13(isbn as Isbn10), isbn10: isbn as Isbn10, inputFormat: "isbn10" }
+  }
+  if (isbn.length === 13) {
+    if (!/^97[89]\d{10}$/.test(isbn)) return { valid: false, reason: `"${input}" is not an ISBN-13` }
+    if (!isValidIsbn13(isbn)) return { valid: false, reason: `"${input}" has a wrong ISBN-13 check digit` }
+    return { valid: true, isbn13: isbn as Isbn13, isbn10: toIsbn10(isbn as Isbn13), inputFormat: "isbn13" }
+  }
+  return { valid: false, reason: `"${input}" has ${isbn.length} characters, expected 10 or 13` }
+}
+
+/**
+ * Normalizes an ISBN to ISBN-13.
+ * @returns {Isbn13|null} - null when the input isn't a valid ISBN
+ */
+export function normalizeIsbn(input: string | null | undefined): Isbn13 | null {
+  const parsed = parseIsbn(input)
+  return parsed.valid ? parsed.isbn13 : null
+}
+
+// Registrant (publisher) ranges of the English-language registration groups 978-0 and 978-1,
+// from the International ISBN Agency's range message. Each entry is [first, last, length] over
+// the 7 digits after the group.
+const REGISTRANT_RANGES: Record<string, Array<[number, number, number]>> = {
+  "9780": [
+    [0, 1999999, 2],
+    [2000000, 6999999, 3],
+    [7000000, 8499999, 4],
+    [8500000, 8999999, 5],
+    [9000000, 9499999, 6],
+    [9500000, 9999999, 7],
+  ],
+  "9781": [
+    [0, 999999, 2],
+    [1000000, 3999999, 3],
+    [4000000, 5499999, 4],
+    [5500000, 8697999, 5],
+    [8698000, 9989999, 6],
+    [9990000, 9999999, 7],
+  ],
+}
+
+/**
+ * Formats an ISBN-13 with hyphens between prefix, group, registrant, publication and check digit,
+ * e.g. 978-0-306-40615-7.
+ * @returns {string|null} - null for groups whose registrant ranges aren't known here
+ */
+export function hyphenateIsbn(isbn13: Isbn13): string | null {
+  const ranges = REGISTRANT_RANGES[isbn13.slice(0, 4)]
+  if (!ranges) return null
+
+  const rest = isbn13.slice(4, 12)
+  const registrantKey = Number(rest.slice(0, 7))
+  const range = ranges.find(([first, last]) => registrantKey >= first && registrantKey <= last)
+  if (!range) return null
+
+  const registrant = rest.slice(0, range[2])
+  const publication = rest.slice(range[2])
+  return [isbn13.slice(0, 3), isbn13[3], registrant, publication, isbn13[12]].join("-")
+}
+
+/**
+ * ISBN fields for book info and results.
+ * @param {string} input - ISBN in any notation, or null
+ * @returns {Object} - The ISBN-13, ISBN-10 and hyphenated ISBN-13; all null when the input isn't valid
+ */
+export function getIsbnFields(input: string | null | undefined) {
+  const parsed = parseIsbn(input)
+  if (!parsed.valid) {
+    return { isbn: null, isbn10: null, isbnHyphenated: null }
+  }
+  return { isbn: parsed.isbn13, isbn10: parsed.isbn10, isbnHyphenated: hyphenateIsbn(parsed.isbn13) }
+}
@@ -0,0 +1,36 @@
+import assert from "node:assert/strict"
+import { after, before, describe, it } from "node:test"
+import { createJob, getJob, getJobQueueStats, waitForJob } from "./jobService.js"
+
+describe("createJob", () => {
+  before(() => {
+    process.env.VISION_PROVIDER = "fake"
+    process.env.METADATA_HTTP = "fake"
+    process.env.METADATA_PROVIDERS = "openLibrary"
+    process.env.CACHE_DISABLED = "true"
+    process.env.JOB_CONCURRENCY = "1"
+  })
+
+  after(() => {
+    delete process.env.JOB_CONCURRENCY
+  })
+
+  it("queues jobs beyond JOB_CONCURRENCY until a slot frees up", async () => {
+    // A volume id skips the cover stages; Open Library's has no preview to capture
+    const secondWhileFirstRuns: Array<string | undefined> = []
+    const first = createJob(null, {
+      volumeId: "OL0000001W",
+      onEvent: (event) => {
+        if (event.type === "stageStarted") secondWhileFirstRuns.push(getJob(second.id)?.status)
+      },
+    })
+    const second = createJob(null, { volumeId: "OL0000001W" })
+    assert.deepEqual(getJobQueueStats(), { concurrency: 1, running: 1, queued: 1 })
+
+    await Promise.all([waitForJob(first.id), waitForJob(second.id)])
+    assert.ok(secondWhileFirstRuns.length > 0)
+    assert.ok(secondWhileFirstRuns.every((status) => status === "queued"))
+    assert.equal(getJob(second.id)?.status, "completed")
+    assert.deepEqual(getJobQueueStats(), { concurrency: 1, running: 0, queued: 0 })
+  })
+})
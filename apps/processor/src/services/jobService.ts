@@ -0,0 +1,188 @@
+import { randomUUID } from "crypto"
+import { EventEmitter } from "events"
+import { processBookCover } from "./bookProcessor.js"
+import type { PipelineEvent, PipelineEventHandler, ProcessJob, ProcessOptions, ProcessResult } from "shared"
+
+/**
+ * In-memory store for asynchronous processing jobs. At most JOB_CONCURRENCY
+ * jobs (default 2) run at a time; the others stay queued, first come first
+ * served. Jobs are kept for JOB_TTL_MS after they finish (default one hour)
+ * so clients can poll for the result, then dropped.
+ */
+
+const DEFAULT_JOB_TTL_MS = 60 * 60 * 1000
+const DEFAULT_JOB_CONCURRENCY = 2
+
+interface JobEntry {
+  job: ProcessJob
+  // Settles with the pipeline result, rejects with the original error
+  done: Promise<ProcessResult>
+  // Every event emitted so far, replayed to late subscribers. pageChecked events are kept
+  // without their screenshot, so a job holds no page images once it is done
+  events: PipelineEvent[]
+  emitter: EventEmitter
+}
+
+const jobs = new Map<string, JobEntry>()
+let runningJobs = 0
+// Queued jobs waiting for a free slot, oldest first
+const waiting: Array<() => void> = []
+
+function getJobTtl() {
+  const ttl = Number(process.env.JOB_TTL_MS)
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_JOB_TTL_MS
+}
+
+function getJobConcurrency() {
+  const concurrency = Number(process.env.JOB_CONCURRENCY)
+  return Number.isInteger(concurrency) && concurrency > 0 ? concurrency : DEFAULT_JOB_CONCURRENCY
+}
+
+// Resolves once the job may start running
+function acquireSlot() {
+  if (runningJobs < getJobConcurrency()) {
+    runningJobs++
+    return Promise.resolve()
+  }
+  return new Promise<void>((resolve) => waiting.push(resolve))
+}
+
+function releaseSlot() {
+  const next = waiting.shift()
+  // The slot passes straight to the next queued job
+  if (next) next()
+  else runningJobs--
+}
+
+function touch(job: ProcessJob) {
+  job.updatedAt = new Date().toISOString()
+}
+
+function scheduleExpiry(id: string) {
+  const timer = setTimeout(() => jobs.delete(id), getJobTtl())
+  // Don't keep the process alive just to expire jobs
+  timer.unref()
+}
+
+/**
+ * Starts processing an image in the background.
+ * @param {Buffer} imageBuffer - Uploaded book cover image, or null when options.volumeId is set
+ * @param {ProcessOptions} options - Pipeline options
+ * @returns {ProcessJob} - The newly created job, still queued or running
+ */
+export function createJob(imageBuffer: Buffer | null, options: ProcessOptions = {}): ProcessJob {
+  const now = new Date().toISOString()
+  const job: ProcessJob = {
+    id: randomUUID(),
+    status: "queued",
+    stage: null,
+    partial: {},
+    result: null,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  const events: PipelineEvent[] = []
+  const emitter = new EventEmitter()
+
+  const record = (event: PipelineEvent) => {
+    if (event.type === "stageStarted") {
+      job.stage = event.stage
+    } else if (event.type === "stageFinished") {
+      Object.assign(job.partial, event.data)
+    }
+    touch(job)
+
+    if (event.type === "pageChecked") {
+      const { screenshot: _screenshot, ...stored } = event
+      events.push(stored)
+    } else {
+      events.push(event)
+    }
+    emitter.emit("event", event)
+    options.onEvent?.(event)
+  }
+
+  const done = acquireSlot().then(async () => {
+    job.status = "running"
+    touch(job)
+
+    try {
+      const result = await processBookCover(imageBuffer, { ...options, onEvent: record })
+
+      job.status = "completed"
+      job.result = result
+      record({ type: "completed", result })
+      return result
+    } catch (error) {
+      job.status = "failed"
+      job.error = error instanceof Error ? error.message : "Unknown error"
+      record({ type: "failed", error: job.error })
+      throw error
+    } finally {
+      releaseSlot()
+      touch(job)
+      scheduleExpiry(job.id)
+    }
+  })
+
+  // Failures are reported through the job; avoid unhandled rejection warnings
+  done.catch(() => {})
+
+  jobs.set(job.id, { job, done, events, emitter })
+  console.log(`Created job ${job.id}`)
+  return job
+}
+
+/**
+ * Running and queued job counts, for /health.
+ */
+export function getJobQueueStats() {
+  return { concurrency: getJobConcurrency(), running: runningJobs, queued: waiting.length }
+}
+
+export function getJob(id: string): ProcessJob | null {
+  return jobs.get(id)?.job ?? null
+}
+
+/**
+ * Waits for a job to finish.
+ * @param {string} id - Job id
+ * @returns {Object} - The pipeline result; rejects with the pipeline's error if the job failed
+ */
+export async function waitForJob(id: string) {
+  const entry = jobs.get(id)
+  if (!entry) {
+    throw new Error(`Job not found: ${id}`)
+  }
+  return entry.done
+}
+
+/**
+ * Replays a job's events so far to the handler, then forwards new ones until
+ * the job completes or fails.
+ * @param {string} id - Job id
+ * @param {PipelineEventHandler} handler - Receives each event in order
+ * @returns {Function|null} - Unsubscribe function, or null if the job doesn't exist
+ */
+export function subscribeToJob(id: string, handler: PipelineEventHandler) {
+  const entry = jobs.get(id)
+  if (!entry) return null
+
+  entry.events.forEach(handler)
+  if (entry.job.status === "completed" || entry.job.status === "failed") {
+    return () => {}
+  }
+
+  const listener = (event: PipelineEvent) => {
+    handler(event)
+    if (event.type === "completed" || event.type === "failed") {
+      entry.emitter.off("event", listener)
+    }
+  }
+  entry.emitter.on("event", listener)
+  return () => {
+    entry.emitter.off("event", listener)
+  }
+}
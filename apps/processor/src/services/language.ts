@@ -0,0 +1,74 @@
+/**
+ * Languages the pipeline knows how to handle. Languages are passed around as ISO 639-1
+ * codes ("fr"); this maps them to what each service expects: Google Books' langRestrict
+ * takes ISO 639-1, Open Library records use MARC codes ("fre") and tesseract its own
+ * language pack names ("fra").
+ */
+
+interface LanguageInfo {
+  name: string
+  // The language's own name, as a model or a person might write it
+  nativeName: string
+  marc: string
+  tesseract: string
+}
+
+const LANGUAGES: Record<string, LanguageInfo> = {
+  en: { name: "English", nativeName: "English", marc: "eng", tesseract: "eng" },
+  fr: { name: "French", nativeName: "Français", marc: "fre", tesseract: "fra" },
+  de: { name: "German", nativeName: "Deutsch", marc: "ger", tesseract: "deu" },
+  es: { name: "Spanish", nativeName: "Español", marc: "spa", tesseract: "spa" },
+  it: { name: "Italian", nativeName: "Italiano", marc: "ita", tesseract: "ita" },
+  pt: { name: "Portuguese", nativeName: "Português", marc: "por", tesseract: "por" },
+  nl: { name: "Dutch", nativeName: "Nederlands", marc: "dut", tesseract: "nld" },
+  sv: { name: "Swedish", nativeName: "Svenska", marc: "swe", tesseract: "swe" },
+  da: { name: "Danish", nativeName: "Dansk", marc: "dan", tesseract: "dan" },
+  no: { name: "Norwegian", nativeName: "Norsk", marc: "nor", tesseract: "nor" },
+  fi: { name: "Finnish", nativeName: "Suomi", marc: "fin", tesseract: "fin" },
+  pl: { name: "Polish", nativeName: "Polski", marc: "pol", tesseract: "pol" },
+  ru: { name: "Russian", nativeName: "Русский", marc: "rus", tesseract: "rus" },
+  ja: { name: "Japanese", nativeName: "日本語", marc: "jpn", tesseract: "jpn" },
+  zh: { name: "Chinese", nativeName: "中文", marc: "chi", tesseract: "chi_sim" },
+  ko: { name: "Korean", nativeName: "한국어", marc: "kor", tesseract: "kor" },
+  ar: { name: "Arabic", nativeName: "العربية", marc: "ara", tesseract: "ara" },
+  he: { name: "Hebrew", nativeName: "עברית", marc: "heb", tesseract: "heb" },
+  tr: { name: "Turkish", nativeName: "Türkçe", marc: "tur", tesseract: "tur" },
+  el: { name: "Greek", nativeName: "Ελληνικά", marc: "gre", tesseract: "ell" },
+  la: { name: "Latin", nativeName: "Latina", marc: "lat", tesseract: "lat" },
+}
+
+/**
+ * Turns a language as written by a model, a provider or a caller into an ISO 639-1 code.
+ * @param {string} value - e.g. "fr", "fr-CA", "fre", "fra", "French" or "Français"
+ * @returns {string|null} - e.g. "fr"; null for languages not in the table
+ */
+export function normalizeLanguage(value: string | null | undefined): string | null {
+  if (!value || typeof value !== "string") return null
+  const text = value.trim().toLowerCase()
+  if (!text) return null
+
+  const primary = text.split(/[-_]/)[0]
+  if (LANGUAGES[primary]) return primary
+
+  // MARC and tesseract codes between them cover both ISO 639-2 forms ("fre" and "fra")
+  const match = Object.entries(LANGUAGES).find(
+    ([, info]) =>
+      info.marc === primary || info.tesseract === primary || info.name.toLowerCase() === text || info.nativeName.toLowerCase() === text,
+  )
+  return match ? match[0] : null
+}
+
+/**
+ * English name of a language, for prompts.
+ */
+export function getLanguageName(code: string | null | undefined) {
+  return (code && LANGUAGES[code]?.name) || null
+}
+
+/**
+ * Tesseract language pack for a language.
+ * @returns {string|null} - e.g. "fra"; null for unknown languages
+ */
+export function getTesseractLanguage(code: string | null | undefined) {
+  return (code && LANGUAGES[code]?.tesseract) || null
+}
@@ -0,0 +1,543 @@
+import axios from "axios"
+import { normalizeIsbn } from "./isbn.js"
+import { normalizeLanguage } from "./language.js"
+import { getVolume, GoogleBooksError, searchVolumes } from "./googleBooksClient.js"
+import type { GoogleAccessInfo, GoogleBooksErrorKind, GoogleBooksTransport, GoogleVolume } from "./googleBooksClient.js"
+import type { CoverThumbnails, IndustryIdentifier, Isbn13, PreviewViewability } from "shared"
+
+/**
+ * Book metadata sources. Each provider looks books up by ISBN, free-text query or
+ * its own id, and maps the response onto a common MetadataRecord. They are tried
+ * in the order given by METADATA_PROVIDERS (default "googleBooks,openLibrary").
+ *
+ * Set METADATA_HTTP=fake to answer every request from canned responses instead of
+ * the network, e.g. for running the pipeline offline with VISION_PROVIDER=fake.
+ */
+
+export type MetadataProviderName = "googleBooks" | "openLibrary"
+
+export interface MetadataRecord {
+  source: MetadataProviderName
+  // The provider's id: a Google Books volume id or an Open Library work id (OL...W)
+  id: string
+  title: string | null
+  subtitle: string | null
+  authors: string[]
+  publisher: string | null
+  publishedDate: string | null
+  pageCount: number | null
+  // ISO 639-1 where the provider's code could be mapped, e.g. "en"
+  language: string | null
+  description: string | null
+  // Google Books categories or Open Library subjects
+  subjects: string[]
+  // Valid ISBNs, normalized to ISBN-13 and without duplicates
+  isbns: Isbn13[]
+  // Identifiers other than ISBNs, e.g. OCLC and LCCN numbers
+  otherIdentifiers: IndustryIdentifier[]
+  thumbnails: CoverThumbnails
+  previewLink: string | null
+  viewability: PreviewViewability
+  // Google Books access info (viewability, embeddable); empty for other providers
+  accessInfo: GoogleAccessInfo
+}
+
+export interface MetadataProvider {
+  name: MetadataProviderName
+  // Whether an id returned by a previous lookup belongs to this provider
+  ownsId(id: string): boolean
+  searchByIsbn(isbn: Isbn13, limit: number): Promise<MetadataRecord[]>
+  // `language` (ISO 639-1) restricts or prefers books in the cover's language
+  search(query: string, limit: number, language?: string | null): Promise<MetadataRecord[]>
+  // Fielded search, for when a free-text search didn't find the book on the cover
+  searchByTitleAuthor(title: string, author: string | null, limit: number, language?: string | null): Promise<MetadataRecord[]>
+  fetchById(id: string): Promise<MetadataRecord>
+}
+
+/**
+ * A failed request to a provider other than Google Books, whose client throws GoogleBooksError.
+ * `kind` tells a record that doesn't exist ("notFound") apart from the provider failing to
+ * answer ("upstream").
+ */
+export class MetadataProviderError extends Error {
+  provider: MetadataProviderName
+  kind: GoogleBooksErrorKind
+  // HTTP status of the response; null for timeouts and network errors
+  status: number | null
+
+  constructor(provider: MetadataProviderName, kind: GoogleBooksErrorKind, message: string, status: number | null = null) {
+    super(message)
+    this.name = "MetadataProviderError"
+    this.provider = provider
+    this.kind = kind
+    this.status = status
+  }
+}
+
+/**
+ * Whether a lookup failed because a provider didn't answer, rather than because it doesn't
+ * have the book; such failures must not be reported as "not found".
+ */
+export function isUpstreamError(error: unknown) {
+  return (error instanceof GoogleBooksError || error instanceof MetadataProviderError) && error.kind === "upstream"
+}
+
+export const METADATA_PROVIDER_NAMES: MetadataProviderName[] = ["googleBooks", "openLibrary"]
+
+const DEFAULT_PROVIDER_ORDER: MetadataProviderName[] = ["googleBooks", "openLibrary"]
+
+const OPEN_LIBRARY_URL = "https://openlibrary.org"
+
+// Canned responses for METADATA_HTTP=fake, per provider. Routes get the parsed URL and return
+// a response body, or undefined when they don't handle it.
+type FakeRoute = (url: URL) => unknown
+
+const fakeOverrides: Record<MetadataProviderName, Array<{ match: string; body: unknown }>> = {
+  googleBooks: [],
+  openLibrary: [],
+}
+
+// Providers whose fake stand-in answers every request with an error status, e.g. 503
+const fakeFailures: Partial<Record<MetadataProviderName, number>> = {}
+
+const DEFAULT_OPEN_LIBRARY_TIMEOUT_MS = 10_000
+
+function getOpenLibraryTimeoutMs() {
+  const timeout = Number(process.env.OPEN_LIBRARY_TIMEOUT_MS)
+  return Number.isInteger(timeout) && timeout > 0 ? timeout : DEFAULT_OPEN_LIBRARY_TIMEOUT_MS
+}
+
+function isFakeHttp() {
+  return process.env.METADATA_HTTP === "fake"
+}
+
+/**
+ * Makes the fake HTTP stand-in answer requests whose URL contains `match` with `body`.
+ * Passing a null body removes the override.
+ */
+export function setFakeMetadataResponse(provider: MetadataProviderName, match: string, body: unknown | null) {
+  loadFakeResponsesFromEnv()
+  setFakeOverride(provider, match, body)
+}
+
+/**
+ * Makes the fake HTTP stand-in answer every request to a provider with an error status, as
+ * during an outage. Passing null makes it answer normally again.
+ */
+export function setFakeMetadataFailure(provider: MetadataProviderName, status: number | null) {
+  if (status === null) delete fakeFailures[provider]
+  else fakeFailures[provider] = status
+}
+
+function setFakeOverride(provider: MetadataProviderName, match: string, body: unknown | null) {
+  fakeOverrides[provider] = fakeOverrides[provider].filter((override) => override.match !== match)
+  if (body !== null) {
+    // Newest first, so a later override wins over an earlier, broader one
+    fakeOverrides[provider].unshift({ match, body })
+  }
+}
+
+// Read on first use rather than at import, so a .env file loaded after this module has been
+// imported still applies; overrides set in code afterwards take precedence
+let fakeResponsesLoaded = false
+
+function loadFakeResponsesFromEnv() {
+  if (fakeResponsesLoaded) return
+  fakeResponsesLoaded = true
+  if (!process.env.FAKE_METADATA_RESPONSES) return
+
+  try {
+    // { "openLibrary": { "<url substring>": <response body> }, ... }
+    const overrides = JSON.parse(process.env.FAKE_METADATA_RESPONSES)
+    for (const provider of METADATA_PROVIDER_NAMES) {
+      for (const [match, body] of Object.entries(overrides[provider] || {})) {
+        setFakeOverride(provider, match, body)
+      }
+    }
+  } catch (error) {
+    console.error("Ignoring invalid FAKE_METADATA_RESPONSES:", error)
+  }
+}
+
+// The fake stand-in's response body, or undefined when nothing answers the URL
+function getFakeJson(provider: MetadataProviderName, url: string, fakeRoutes: FakeRoute[]): unknown {
+  loadFakeResponsesFromEnv()
+  const override = fakeOverrides[provider].find((entry) => url.includes(entry.match))
+  if (override) return override.body
+
+  const parsed = new URL(url)
+  for (const route of fakeRoutes) {
+    const body = route(parsed)
+    if (body !== undefined) return body
+  }
+  return undefined
+}
+
+function checkStatus(provider: MetadataProviderName, url: string, status: number) {
+  if (status === 404) {
+    throw new MetadataProviderError(provider, "notFound", `${provider} has nothing at ${url}`, 404)
+  }
+  if (status < 200 || status >= 300) {
+    throw new MetadataProviderError(provider, "upstream", `${provider} request failed (status ${status})`, status)
+  }
+}
+
+/**
+ * GETs a JSON document, from the network or from the provider's fake routes.
+ * @returns {unknown} - The parsed body, unchecked
+ */
+async function getJson(provider: MetadataProviderName, url: string, fakeRoutes: FakeRoute[]): Promise<unknown> {
+  if (!isFakeHttp()) {
+    let response
+    try {
+      response = await axios.get(url, { timeout: getOpenLibraryTimeoutMs(), validateStatus: () => true })
+    } catch (error) {
+      throw new MetadataProviderError(provider, "upstream", `${provider} request failed (${(error as Error).message})`)
+    }
+    checkStatus(provider, url, response.status)
+    return response.data
+  }
+
+  const failure = fakeFailures[provider]
+  if (failure) checkStatus(provider, url, failure)
+  const body = getFakeJson(provider, url, fakeRoutes)
+  if (body === undefined) {
+    throw new MetadataProviderError(provider, "notFound", `no fake ${provider} response for ${url}`, 404)
+  }
+  return body
+}
+
+// Providers return ISBN-10s and ISBN-13s of the same edition, and sometimes invalid ones
+function normalizeIsbns(values: string[]): Isbn13[] {
+  return [...new Set(values.map(normalizeIsbn).filter((isbn): isbn is Isbn13 => isbn !== null))]
+}
+
+// Provider JSON is read field by field; missing or unexpected values count as absent
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function readString(value: unknown) {
+  return typeof value === "string" && value ? value : null
+}
+
+function readStrings(value: unknown) {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : []
+}
+
+function toPageCount(value: unknown) {
+  const pages = Number(value)
+  return Number.isInteger(pages) && pages > 0 ? pages : null
+}
+
+// The fake providers all know one book, the one the fake vision provider identifies
+const FAKE_BOOK = {
+  title: "The Fake Book",
+  author: "Jane Doe",
+  isbn13: "9780000000002",
+  isbn10: "0000000000",
+}
+
+function isFakeBookQuery(query: string | null) {
+  const text = (query || "").toLowerCase()
+  return text.includes("fake book") || text.includes(FAKE_BOOK.isbn13) || text.includes(FAKE_BOOK.isbn10)
+}
+
+// Google Books
+
+const FAKE_GOOGLE_VOLUME = {
+  id: "FAKEVOLUME01",
+  volumeInfo: {
+    title: FAKE_BOOK.title,
+    subtitle: "A Novel",
+    authors: [FAKE_BOOK.author],
+    publisher: "Offline Press",
+    publishedDate: "2001-04-01",
+    pageCount: 212,
+    language: "en",
+    description: "A novel that only exists when the network doesn't.",
+    categories: ["Fiction / General"],
+    industryIdentifiers: [
+      { type: "ISBN_13", identifier: FAKE_BOOK.isbn13 },
+      { type: "ISBN_10", identifier: FAKE_BOOK.isbn10 },
+    ],
+    imageLinks: {
+      smallThumbnail: "http://books.google.com/books/content?id=FAKEVOLUME01&printsec=frontcover&img=1&zoom=5",
+      thumbnail: "http://books.google.com/books/content?id=FAKEVOLUME01&printsec=frontcover&img=1&zoom=1",
+    },
+    previewLink: "https://books.google.com/books?id=FAKEVOLUME01",
+  },
+  accessInfo: { viewability: "PARTIAL", embeddable: true },
+}
+
+const googleFakeRoutes: FakeRoute[] = [
+  (url) => {
+    if (url.pathname !== "/books/v1/volumes") return undefined
+    return isFakeBookQuery(url.searchParams.get("q"))
+      ? { totalItems: 1, items: [FAKE_GOOGLE_VOLUME] }
+      : { totalItems: 0 }
+  },
+  (url) => (url.pathname === `/books/v1/volumes/${FAKE_GOOGLE_VOLUME.id}` ? FAKE_GOOGLE_VOLUME : undefined),
+]
+
+const GOOGLE_VIEWABILITY: Record<string, PreviewViewability> = {
+  ALL_PAGES: "full",
+  PARTIAL: "partial",
+  NO_PAGES: "none",
+}
+
+// Image links come back as http URLs, which browsers block on https pages
+function toHttps(url: string | undefined) {
+  return url ? url.replace(/^http:/, "https:") : null
+}
+
+// The Google Books client's transport; undefined uses the network
+function getGoogleTransport(): GoogleBooksTransport | undefined {
+  if (!isFakeHttp()) return undefined
+  return async (url) => {
+    const failure = fakeFailures.googleBooks
+    if (failure) return { status: failure, data: { error: { message: `fake googleBooks failure for ${url}` } } }
+    const body = getFakeJson("googleBooks", url, googleFakeRoutes)
+    return body === undefined
+      ? { status: 404, data: { error: { message: `no fake googleBooks response for ${url}` } } }
+      : { status: 200, data: body }
+  }
+}
+
+function fromGoogleVolume(item: GoogleVolume): MetadataRecord {
+  const book = item.volumeInfo || {}
+  const images = book.imageLinks || {}
+  const identifiers: IndustryIdentifier[] = book.industryIdentifiers || []
+
+  return {
+    source: "googleBooks",
+    id: item.id,
+    title: book.title || null,
+    subtitle: book.subtitle || null,
+    authors: book.authors || [],
+    publisher: book.publisher || null,
+    publishedDate: book.publishedDate || null,
+    pageCount: toPageCount(book.pageCount),
+    language: book.language || null,
+    description: book.description || null,
+    subjects: book.categories || [],
+    isbns: normalizeIsbns(
+      identifiers.filter((id) => id.type === "ISBN_13" || id.type === "ISBN_10").map((id) => id.identifier),
+    ),
+    otherIdentifiers: identifiers.filter((id) => id.type !== "ISBN_13" && id.type !== "ISBN_10"),
+    thumbnails: {
+      small: toHttps(images.smallThumbnail),
+      medium: toHttps(images.thumbnail),
+      // Only volume lookups return the larger sizes
+      large: toHttps(images.large || images.medium || images.small),
+    },
+    previewLink: book.previewLink || null,
+    viewability: GOOGLE_VIEWABILITY[item.accessInfo?.viewability ?? ""] || "unknown",
+    accessInfo: item.accessInfo || {},
+  }
+}
+
+const googleBooksProvider: MetadataProvider = {
+  name: "googleBooks",
+  ownsId(id) {
+    return !openLibraryProvider.ownsId(id)
+  },
+  async searchByIsbn(isbn, limit) {
+    const data = await searchVolumes(`isbn:${isbn}`, { maxResults: limit }, getGoogleTransport())
+    return (data.items || []).map(fromGoogleVolume)
+  },
+  async search(query, limit, language = null) {
+    const data = await searchVolumes(query, { maxResults: Math.max(limit, 10), langRestrict: language }, getGoogleTransport())
+    return (data.items || []).map(fromGoogleVolume)
+  },
+  async searchByTitleAuthor(title, author, limit, language = null) {
+    // Quotes would end the phrase early
+    const phrase = (value: string) => `"${value.replace(/"/g, "")}"`
+    const query = [`intitle:${phrase(title)}`, ...(author ? [`inauthor:${phrase(author)}`] : [])].join(" ")
+    return googleBooksProvider.search(query, limit, language)
+  },
+  async fetchById(id) {
+    return fromGoogleVolume(await getVolume(id, getGoogleTransport()))
+  },
+}
+
+// Open Library
+
+const OPEN_LIBRARY_SEARCH_FIELDS = [
+  "key", "title", "subtitle", "author_name", "publisher", "first_publish_year", "number_of_pages_median",
+  "language", "isbn", "oclc", "lccn", "cover_i", "subject", "ia", "ebook_access",
+].join(",")
+
+const OPEN_LIBRARY_COVERS_URL = "https://covers.openlibrary.org/b/id"
+
+// Borrowable scans show a few pages without borrowing the book
+const OPEN_LIBRARY_VIEWABILITY: Record<string, PreviewViewability> = {
+  public: "full",
+  borrowable: "partial",
+}
+
+
+// Candidates are works, whose ids look like OL45804W
+const OPEN_LIBRARY_WORK_ID = /^OL\d+W$/
+
+const FAKE_OPEN_LIBRARY_WORK = {
+  key: "/works/OL0000001W",
+  title: FAKE_BOOK.title,
+  subtitle: "A Novel",
+  author_name: [FAKE_BOOK.author],
+  publisher: ["Offline Press"],
+  first_publish_year: 2001,
+  number_of_pages_median: 210,
+  language: ["eng"],
+  isbn: [FAKE_BOOK.isbn13, FAKE_BOOK.isbn10],
+  oclc: ["00000001"],
+  cover_i: 1,
+  subject: ["Fiction", "Imaginary places", "Fiction, general"],
+  ia: ["fakebook0000doej"],
+  ebook_access: "borrowable",
+}
+
+const openLibraryFakeRoutes: FakeRoute[] = [
+  (url) => {
+    if (url.pathname !== "/search.json") return undefined
+    const query = url.searchParams.get("q")
+    const matches =
+      isFakeBookQuery(query || url.searchParams.get("title")) || query === `key:${FAKE_OPEN_LIBRARY_WORK.key}`
+    return { numFound: matches ? 1 : 0, docs: matches ? [FAKE_OPEN_LIBRARY_WORK] : [] }
+  },
+  (url) =>
+    url.pathname === `${FAKE_OPEN_LIBRARY_WORK.key}.json`
+      ? {
+          key: FAKE_OPEN_LIBRARY_WORK.key,
+          title: FAKE_BOOK.title,
+          description: { type: "/type/text", value: "Jane Doe's first novel, written entirely offline." },
+          subjects: FAKE_OPEN_LIBRARY_WORK.subject,
+        }
+      : undefined,
+]
+
+function fromOpenLibraryDoc(doc: Record<string, unknown>, description: string | null = null): MetadataRecord {
+  const ia = readStrings(doc.ia)
+  const access = readString(doc.ebook_access)
+  // Only public and borrowable scans can be read without a print-disability account
+  const readableAs = access && ia.length > 0 ? OPEN_LIBRARY_VIEWABILITY[access] : undefined
+  // Works list every edition's languages (as MARC codes); the first is usually the original
+  const language = readStrings(doc.language)[0] || null
+  const coverId = typeof doc.cover_i === "number" ? doc.cover_i : null
+  const cover = (size: string) => (coverId ? `${OPEN_LIBRARY_COVERS_URL}/${coverId}-${size}.jpg` : null)
+
+  return {
+    source: "openLibrary",
+    id: (readString(doc.key) ?? "").replace(/^\/works\//, ""),
+    title: readString(doc.title),
+    subtitle: readString(doc.subtitle),
+    authors: readStrings(doc.author_name),
+    publisher: readStrings(doc.publisher)[0] || null,
+    // A work's first publication, not necessarily the edition's
+    publishedDate: typeof doc.first_publish_year === "number" ? String(doc.first_publish_year) : null,
+    pageCount: toPageCount(doc.number_of_pages_median),
+    language: normalizeLanguage(language) ?? language,
+    description,
+    subjects: readStrings(doc.subject),
+    isbns: normalizeIsbns(readStrings(doc.isbn)),
+    otherIdentifiers: [
+      ...readStrings(doc.oclc).map((identifier) => ({ type: "OCLC", identifier })),
+      ...readStrings(doc.lccn).map((identifier) => ({ type: "LCCN", identifier })),
+    ],
+    thumbnails: { small: cover("S"), medium: cover("M"), large: cover("L") },
+    previewLink: readableAs ? `https://archive.org/details/${ia[0]}` : null,
+    viewability: readableAs ?? (access ? "none" : "unknown"),
+    accessInfo: {},
+  }
+}
+
+// Work descriptions are either a string or a { type, value } text object
+function readOpenLibraryText(value: unknown) {
+  return isRecord(value) ? readString(value.value) : readString(value)
+}
+
+// Takes either a free-text query (q) or fielded title and author parameters
+async function searchOpenLibrary(params: Record<string, string>, limit: number) {
+  const query = Object.entries(params)
+    .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+    .join("&")
+  const data = await getJson(
+    "openLibrary",
+    `${OPEN_LIBRARY_URL}/search.json?${query}&fields=${OPEN_LIBRARY_SEARCH_FIELDS}&limit=${limit}`,
+    openLibraryFakeRoutes,
+  )
+  const docs = isRecord(data) && Array.isArray(data.docs) ? data.docs.filter(isRecord) : []
+  return docs.map((doc) => fromOpenLibraryDoc(doc))
+}
+
+const openLibraryProvider: MetadataProvider = {
+  name: "openLibrary",
+  ownsId(id) {
+    return OPEN_LIBRARY_WORK_ID.test(id)
+  },
+  async searchByIsbn(isbn, limit) {
+    return searchOpenLibrary({ q: `isbn:${isbn}` }, limit)
+  },
+  // `lang` doesn't filter, it makes Open Library describe works by their edition in that language
+  async search(query, limit, language = null) {
+    return searchOpenLibrary({ q: query, ...(language ? { lang: language } : {}) }, limit)
+  },
+  async searchByTitleAuthor(title, author, limit, language = null) {
+    return searchOpenLibrary({ title, ...(author ? { author } : {}), ...(language ? { lang: language } : {}) }, limit)
+  },
+  async fetchById(id) {
+    // Search gives authors and ISBNs, the work record the description
+    const key = `/works/${id}`
+    const [docs, body] = await Promise.all([
+      searchOpenLibrary({ q: `key:${key}` }, 1),
+      getJson("openLibrary", `${OPEN_LIBRARY_URL}${key}.json`, openLibraryFakeRoutes),
+    ])
+
+    const work = isRecord(body) ? body : {}
+    const description = readOpenLibraryText(work.description)
+    if (docs.length > 0) {
+      return { ...docs[0], id, description }
+    }
+    return fromOpenLibraryDoc(
+      { key, title: work.title, subtitle: work.subtitle, subject: work.subjects, cover_i: Array.isArray(work.covers) ? work.covers[0] : null },
+      description,
+    )
+  },
+}
+
+const PROVIDERS: Record<MetadataProviderName, MetadataProvider> = {
+  googleBooks: googleBooksProvider,
+  openLibrary: openLibraryProvider,
+}
+
+/**
+ * Providers to query, in fallback order.
+ * @returns {MetadataProvider[]} - From METADATA_PROVIDERS, or Google Books then Open Library
+ */
+export function getMetadataProviders(): MetadataProvider[] {
+  const configured = (process.env.METADATA_PROVIDERS || "")
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0)
+
+  const invalid = configured.filter((name) => !METADATA_PROVIDER_NAMES.includes(name as MetadataProviderName))
+  if (invalid.length > 0) {
+    console.error(`Ignoring unknown METADATA_PROVIDERS entries: ${invalid.join(", ")}`)
+  }
+
+  const names = configured.filter((name) => !invalid.includes(name)) as MetadataProviderName[]
+  return [...new Set(names.length > 0 ? names : DEFAULT_PROVIDER_ORDER)].map((name) => PROVIDERS[name])
+}
+
+export function getMetadataProvider(name: MetadataProviderName): MetadataProvider {
+  return PROVIDERS[name]
+}
+
+/**
+ * Finds the provider an id came from.
+ * @param {string} id - Id of a previously returned book or candidate
+ * @returns {MetadataProvider} - Open Library for OL...W ids, Google Books otherwise
+ */
+export function getProviderForId(id: string): MetadataProvider {
+  return openLibraryProvider.ownsId(id) ? openLibraryProvider : googleBooksProvider
+}
@@ -0,0 +1,115 @@
+import Tesseract from "tesseract.js"
+import { getTesseractLanguage } from "./language.js"
+
+/**
+ * Local OCR using tesseract.js. Runs entirely in-process, so page text can be
+ * extracted without LLM calls.
+ *
+ * Language data is downloaded from the tesseract.js CDN on first use and cached
+ * in TESSERACT_CACHE_PATH. For machines with no network, download the
+ * `<lang>.traineddata.gz` files ahead of time and point TESSERACT_LANG_PATH at
+ * the directory holding them.
+ *
+ * Pages are read with the language pack for the book's language when it is known,
+ * falling back to OCR_LANGUAGE (default "eng") when it isn't or its pack can't be loaded.
+ */
+
+const DEFAULT_OCR_LANGUAGE = "eng"
+// A language whose data failed to load isn't tried again for this long: every attempt leaves a
+// worker thread behind
+const FAILED_LANGUAGE_RETRY_MS = 10 * 60 * 1000
+
+const failedLanguages = new Map<string, number>()
+
+export function getOcrLanguage() {
+  return process.env.OCR_LANGUAGE || DEFAULT_OCR_LANGUAGE
+}
+
+export async function createOcrWorker(language = getOcrLanguage()): Promise<Tesseract.Worker> {
+  const options: Partial<Tesseract.WorkerOptions> = {}
+  if (process.env.TESSERACT_LANG_PATH) options.langPath = process.env.TESSERACT_LANG_PATH
+  if (process.env.TESSERACT_CACHE_PATH) options.cachePath = process.env.TESSERACT_CACHE_PATH
+
+  const failedAt = failedLanguages.get(language)
+  if (failedAt && Date.now() - failedAt < FAILED_LANGUAGE_RETRY_MS) {
+    throw new Error(`Tesseract language data for ${language} failed to load recently`)
+  }
+
+  console.log(`Starting tesseract worker for language: ${language}`)
+  return new Promise((resolve, reject) => {
+    // Without an error handler, a failure to load the language data is thrown from the worker
+    // and takes the process down; with one, createWorker never settles, so reject from it
+    options.errorHandler = (error) => {
+      failedLanguages.set(language, Date.now())
+      reject(new Error(`Tesseract error: ${error}`))
+    }
+    Tesseract.createWorker(language, undefined, options).then(resolve, reject)
+  })
+}
+
+/**
+ * Starts a worker for a book's language.
+ * @param {string} language - ISO 639-1 code of the page text, if known
+ * @returns {Tesseract.Worker} - A worker for that language's pack, or for OCR_LANGUAGE when the
+ *   language is unknown or its pack isn't available (e.g. offline without it in TESSERACT_LANG_PATH)
+ */
+export async function createOcrWorkerForLanguage(language: string | null | undefined): Promise<Tesseract.Worker> {
+  const tesseractLanguage = getTesseractLanguage(language)
+  if (!tesseractLanguage || tesseractLanguage === getOcrLanguage()) {
+    return createOcrWorker()
+  }
+
+  try {
+    return await createOcrWorker(tesseractLanguage)
+  } catch (error) {
+    console.error(`Could not load the ${tesseractLanguage} language pack, falling back to ${getOcrLanguage()}:`, error)
+    return createOcrWorker()
+  }
+}
+
+/**
+ * Cleans up raw tesseract output: collapses the line breaks inside paragraphs
+ * and keeps blank lines as paragraph separators.
+ * @param {string} text - Raw OCR text
+ * @returns {string} - Text with paragraph structure preserved
+ */
+export function normalizeOcrText(text: string) {
+  return text
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.replace(/\s*\n\s*/g, " ").replace(/[ \t]+/g, " ").trim())
+    .filter((paragraph) => paragraph.length > 0)
+    .join("\n\n")
+}
+
+/**
+ * Reads a single page image without cleaning up the result.
+ * @param {string} base64Image - JPEG/PNG image encoded as base64 (no data URL prefix)
+ * @param {Tesseract.Worker} worker - Optional worker to reuse across pages
+ * @returns {Object} - The raw text, line breaks included, and tesseract's 0-100 mean confidence
+ */
+export async function recognizePage(base64Image: string, worker?: Tesseract.Worker) {
+  const ownWorker = !worker
+  const ocrWorker = worker || (await createOcrWorker())
+
+  try {
+    const { data } = await ocrWorker.recognize(Buffer.from(base64Image, "base64"))
+    console.log(`OCR confidence: ${data.confidence}`)
+    return { text: data.text, confidence: data.confidence }
+  } finally {
+    if (ownWorker) {
+      await ocrWorker.terminate()
+    }
+  }
+}
+
+/**
+ * Extracts the text of a single page image.
+ * @param {string} base64Image - JPEG/PNG image encoded as base64 (no data URL prefix)
+ * @param {Tesseract.Worker} worker - Optional worker to reuse across pages
+ * @returns {string} - Extracted text
+ */
+export async function recognizePageText(base64Image: string, worker?: Tesseract.Worker) {
+  const { text } = await recognizePage(base64Image, worker)
+  return normalizeOcrText(text)
+}
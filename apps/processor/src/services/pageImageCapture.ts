@@ -0,0 +1,131 @@
+import type { HTTPResponse, Page } from "puppeteer-core"
+
+/**
+ * Captures the page images the Google Books embed viewer downloads, e.g.
+ *
+ *   https://books.google.com/books/publisher/content?id=Coi9AwAAQBAJ&pg=PA1&img=1&zoom=3&hl=en&sig=...&w=1280
+ *
+ * They are the scanned pages themselves: higher resolution than a viewport screenshot,
+ * with no viewer controls or neighbouring pages around them. Set PAGE_IMAGE_CAPTURE=false
+ * to always use screenshots.
+ */
+
+// How long to wait for the image of a page that has just scrolled into view
+const DEFAULT_IMAGE_WAIT_MS = 3000
+const IMAGE_POLL_MS = 250
+
+const PAGE_IMAGE_PATH = /^\/books(\/publisher)?\/content$/
+
+export interface PageImage {
+  // Google Books page id, e.g. "PA1" (numbered page) or "PP3" (front matter)
+  pageId: string
+  url: string
+  mimeType: string
+  buffer: Buffer
+}
+
+export function isPageImageCaptureEnabled() {
+  return process.env.PAGE_IMAGE_CAPTURE !== "false"
+}
+
+/**
+ * Recognizes a page image URL.
+ * @param {string} url - Any URL the viewer requested
+ * @returns {string|null} - The page id (`pg`), or null for covers, thumbnails and everything else
+ */
+export function parsePageImageUrl(url: string) {
+  try {
+    const parsed = new URL(url)
+    if (!parsed.hostname.endsWith(".google.com") || !PAGE_IMAGE_PATH.test(parsed.pathname)) return null
+    if (parsed.searchParams.get("img") !== "1") return null
+    // Cover thumbnails use the same endpoint with printsec=frontcover instead of a page
+    return parsed.searchParams.get("pg") || null
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * Records every page image the page downloads from now on.
+ * @param {Page} page - Page showing the embed viewer
+ * @returns {Object} - The images by page id, and `stop()` to stop listening
+ */
+export function watchPageImages(page: Page) {
+  const images = new Map<string, PageImage>()
+
+  const onResponse = async (response: HTTPResponse) => {
+    const pageId = parsePageImageUrl(response.url())
+    if (!pageId || !response.ok()) return
+
+    try {
+      const buffer = await response.buffer()
+      const existing = images.get(pageId)
+      // The viewer can load a page at several zoom levels; keep the largest
+      if (!existing || buffer.length > existing.buffer.length) {
+        const mimeType = response.headers()["content-type"]?.split(";")[0] || "image/png"
+        images.set(pageId, { pageId, url: response.url(), mimeType, buffer })
+      }
+    } catch (error) {
+      // Bodies of redirects and of responses the browser already evicted can't be read
+    }
+  }
+
+  page.on("response", onResponse)
+  return {
+    images,
+    stop() {
+      page.off("response", onResponse)
+    },
+  }
+}
+
+/**
+ * The page images in view, largest visible area first.
+ * @returns {string[]} - Their page ids
+ */
+async function getVisiblePageIds(page: Page): Promise<string[]> {
+  const sources: string[] = await page.evaluate(() => {
+    const visible = Array.from(document.querySelectorAll("img"))
+      .map((img) => {
+        const rect = img.getBoundingClientRect()
+        const width = Math.min(rect.right, window.innerWidth) - Math.max(rect.left, 0)
+        const height = Math.min(rect.bottom, window.innerHeight) - Math.max(rect.top, 0)
+        return { src: img.src, area: Math.max(width, 0) * Math.max(height, 0) }
+      })
+      .filter((image) => image.area > 0)
+    return visible.sort((a, b) => b.area - a.area).map((image) => image.src)
+  })
+  return sources.map(parsePageImageUrl).filter((pageId): pageId is string => !!pageId)
+}
+
+/**
+ * The Google Books page id of the page in view, whether or not its image was captured.
+ * @returns {string|null} - e.g. "PA12"; null when the viewer shows no page image
+ */
+export async function getVisiblePageId(page: Page) {
+  return (await getVisiblePageIds(page))[0] ?? null
+}
+
+/**
+ * Finds the downloaded image of the page currently in view, waiting briefly for it to
+ * arrive after the viewer moved to a new page.
+ * @param {Page} page - Page showing the embed viewer
+ * @param {Map} images - Images recorded by watchPageImages
+ * @returns {PageImage|null} - null when the page in view has no captured image, e.g. because
+ *   the viewer draws pages some other way or the image came from the browser cache
+ */
+export async function findVisiblePageImage(
+  page: Page,
+  images: Map<string, PageImage>,
+  timeoutMs = DEFAULT_IMAGE_WAIT_MS,
+): Promise<PageImage | null> {
+  const deadline = Date.now() + timeoutMs
+  for (;;) {
+    const pageIds = await getVisiblePageIds(page)
+    const image = pageIds.map((pageId) => images.get(pageId)).find(Boolean)
+    if (image) return image
+    // Nothing in view looks like a page image, so waiting won't help
+    if (pageIds.length === 0 || Date.now() >= deadline) return null
+    await new Promise((resolve) => setTimeout(resolve, IMAGE_POLL_MS))
+  }
+}
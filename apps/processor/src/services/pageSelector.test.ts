@@ -0,0 +1,68 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { getPageSelectorKey, getStartPageId, MAX_SELECTED_PAGES, parsePageSelector } from "./pageSelector.js"
+
+describe("parsePageSelector", () => {
+  it("defaults to auto", () => {
+    assert.deepEqual(parsePageSelector(undefined), { kind: "auto" })
+    assert.deepEqual(parsePageSelector(null), { kind: "auto" })
+    assert.deepEqual(parsePageSelector("  "), { kind: "auto" })
+    assert.deepEqual(parsePageSelector("Auto"), { kind: "auto" })
+  })
+
+  it("reads body page counts", () => {
+    assert.deepEqual(parsePageSelector("body:5"), { kind: "bodyPages", count: 5 })
+    assert.deepEqual(parsePageSelector("bodyPages:3"), { kind: "bodyPages", count: 3 })
+    assert.deepEqual(parsePageSelector("body 2"), { kind: "bodyPages", count: 2 })
+    // One body page is the first body page
+    assert.deepEqual(parsePageSelector("body:1"), { kind: "firstBodyPage" })
+  })
+
+  it("reads page numbers and ranges", () => {
+    assert.deepEqual(parsePageSelector("12"), { kind: "page", page: 12 })
+    assert.deepEqual(parsePageSelector(12), { kind: "page", page: 12 })
+    assert.deepEqual(parsePageSelector("page:12"), { kind: "page", page: 12 })
+    assert.deepEqual(parsePageSelector("3-5"), { kind: "range", from: 3, to: 5 })
+    assert.deepEqual(parsePageSelector("pages: 3 – 5"), { kind: "range", from: 3, to: 5 })
+    assert.deepEqual(parsePageSelector("7-7"), { kind: "page", page: 7 })
+  })
+
+  it("reads sections and their aliases", () => {
+    assert.deepEqual(parsePageSelector("first"), { kind: "firstBodyPage" })
+    assert.deepEqual(parsePageSelector("First Chapter"), { kind: "firstChapter" })
+    assert.deepEqual(parsePageSelector("Table of Contents"), { kind: "section", section: "contents" })
+    assert.deepEqual(parsePageSelector("toc"), { kind: "section", section: "contents" })
+    assert.deepEqual(parsePageSelector("copyright page"), { kind: "section", section: "copyright" })
+  })
+
+  it("rejects counts and ranges outside the limits", () => {
+    assert.throws(() => parsePageSelector("body:0"), /between 1 and/)
+    assert.throws(() => parsePageSelector(`body:${MAX_SELECTED_PAGES + 1}`), /between 1 and/)
+    assert.throws(() => parsePageSelector("0"), /pages start at 1/)
+    assert.throws(() => parsePageSelector("5-3"), /expected a range like 3-5/)
+    assert.throws(() => parsePageSelector(`1-${MAX_SELECTED_PAGES + 1}`), /at most/)
+  })
+
+  it("rejects anything else", () => {
+    for (const value of ["appendix", "body:", "3-", "page -2", "1,2"]) {
+      assert.throws(() => parsePageSelector(value), /Invalid page selector/, value)
+    }
+    assert.throws(() => parsePageSelector({ kind: "page", page: 3 }), /Invalid page selector/)
+  })
+})
+
+describe("getPageSelectorKey", () => {
+  it("gives the same key for equivalent selectors", () => {
+    assert.equal(getPageSelectorKey(parsePageSelector("bodyPages:5")), getPageSelectorKey(parsePageSelector("body 5")))
+    assert.equal(getPageSelectorKey(parsePageSelector("pages:3-5")), "pages:3-5")
+  })
+})
+
+describe("getStartPageId", () => {
+  it("opens the viewer at the page asked for", () => {
+    assert.equal(getStartPageId(parsePageSelector("12")), "PA12")
+    assert.equal(getStartPageId(parsePageSelector("3-5")), "PA3")
+    assert.equal(getStartPageId(parsePageSelector("contents")), "PP1")
+    assert.equal(getStartPageId(parsePageSelector("body:5")), "PA1")
+  })
+})
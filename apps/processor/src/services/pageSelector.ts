@@ -0,0 +1,165 @@
+import type { FrontMatterSection, PageSelector } from "shared"
+
+/**
+ * Parses and describes the `pageSelector` request field:
+ *
+ *   auto                 second body page for fiction, first for non-fiction (default)
+ *   first                first page of body text
+ *   body:5, bodyPages:5  the first 5 pages of body text
+ *   12, page:12          printed page 12
+ *   3-5, pages:3-5       printed pages 3 to 5
+ *   contents, copyright  a front-matter section (title, copyright, dedication, contents,
+ *                        foreword, preface, introduction)
+ *   firstChapter         the first chapter, up to MAX_SELECTED_PAGES pages
+ *
+ * Body pages, ranges and chapters are consecutive pages, whose text is stitched into one passage.
+ */
+
+// Pages captured at most for body pages, a range or a chapter; each one can cost a vision call
+export const MAX_SELECTED_PAGES = 10
+
+const SECTION_ALIASES: Record<string, FrontMatterSection> = {
+  title: "title",
+  titlepage: "title",
+  copyright: "copyright",
+  copyrightpage: "copyright",
+  dedication: "dedication",
+  contents: "contents",
+  toc: "contents",
+  tableofcontents: "contents",
+  foreword: "foreword",
+  preface: "preface",
+  introduction: "introduction",
+  intro: "introduction",
+}
+
+const SECTION_NAMES: Record<FrontMatterSection, string> = {
+  title: "title page",
+  copyright: "copyright page",
+  dedication: "dedication",
+  contents: "table of contents",
+  foreword: "foreword",
+  preface: "preface",
+  introduction: "introduction",
+}
+
+const SELECTOR_FORMS = `auto, first, firstChapter, body pages (body:5), a page number (12), a range (3-5) or a section (${Object.keys(SECTION_NAMES).join(", ")})`
+
+/**
+ * Reads a page selector as sent by a caller.
+ * @param {unknown} value - e.g. "first", "body:5", "12", "3-5", "contents"; missing or empty means "auto"
+ * @returns {PageSelector} - The parsed selector; throws for anything else
+ */
+export function parsePageSelector(value: unknown): PageSelector {
+  if (value === undefined || value === null) return { kind: "auto" }
+  if (typeof value === "number") value = String(value)
+  if (typeof value !== "string") {
+    throw new Error(`Invalid page selector, expected one of: ${SELECTOR_FORMS}`)
+  }
+
+  const text = value.trim().toLowerCase()
+  const key = text.replace(/[^a-z0-9]/g, "")
+  if (!text || key === "auto") return { kind: "auto" }
+  if (key === "first" || key === "firstpage" || key === "firstbodypage") return { kind: "firstBodyPage" }
+  if (key === "firstchapter" || key === "chapter1") return { kind: "firstChapter" }
+  if (SECTION_ALIASES[key]) return { kind: "section", section: SECTION_ALIASES[key] }
+
+  const body = text.match(/^body\s*(?:pages?)?\s*[:=]?\s*(\d+)$/)
+  if (body) {
+    const count = Number(body[1])
+    if (count < 1 || count > MAX_SELECTED_PAGES) {
+      throw new Error(`Invalid page selector "${value}": between 1 and ${MAX_SELECTED_PAGES} body pages can be captured`)
+    }
+    return count === 1 ? { kind: "firstBodyPage" } : { kind: "bodyPages", count }
+  }
+
+  const page = text.match(/^(?:page\s*[:=]?\s*)?(\d+)$/)
+  if (page) {
+    const number = Number(page[1])
+    if (number < 1) throw new Error(`Invalid page selector "${value}": pages start at 1`)
+    return { kind: "page", page: number }
+  }
+
+  const range = text.match(/^(?:pages?\s*[:=]?\s*)?(\d+)\s*[-–]\s*(\d+)$/)
+  if (range) {
+    const [from, to] = [Number(range[1]), Number(range[2])]
+    if (from < 1 || to < from) throw new Error(`Invalid page selector "${value}": expected a range like 3-5`)
+    if (to - from + 1 > MAX_SELECTED_PAGES) {
+      throw new Error(`Invalid page selector "${value}": at most ${MAX_SELECTED_PAGES} pages can be captured`)
+    }
+    return from === to ? { kind: "page", page: from } : { kind: "range", from, to }
+  }
+
+  throw new Error(`Invalid page selector "${value}", expected one of: ${SELECTOR_FORMS}`)
+}
+
+/**
+ * Short stable form of a selector, e.g. for cache keys.
+ * @returns {string} - "auto", "first", "body:5", "page:12", "pages:3-5", "section:contents" or "firstChapter"
+ */
+export function getPageSelectorKey(selector: PageSelector) {
+  switch (selector.kind) {
+    case "auto":
+      return "auto"
+    case "firstBodyPage":
+      return "first"
+    case "bodyPages":
+      return `body:${selector.count}`
+    case "page":
+      return `page:${selector.page}`
+    case "range":
+      return `pages:${selector.from}-${selector.to}`
+    case "section":
+      return `section:${selector.section}`
+    case "firstChapter":
+      return "firstChapter"
+  }
+}
+
+/**
+ * What a selector asks for, for messages to the user.
+ * @returns {string} - e.g. "page 12", "table of contents"; null for "auto", which depends on the genre
+ */
+export function describePageSelector(selector: PageSelector) {
+  switch (selector.kind) {
+    case "auto":
+      return null
+    case "firstBodyPage":
+      return "first page"
+    case "bodyPages":
+      return `first ${selector.count} pages`
+    case "page":
+      return `page ${selector.page}`
+    case "range":
+      return `pages ${selector.from}-${selector.to}`
+    case "section":
+      return SECTION_NAMES[selector.section]
+    case "firstChapter":
+      return "first chapter"
+  }
+}
+
+/**
+ * The section's name, for asking a vision model whether a page is it.
+ */
+export function getSectionName(section: FrontMatterSection) {
+  return SECTION_NAMES[section]
+}
+
+/**
+ * Google Books page id to open the viewer at: the requested page, the first front-matter
+ * page when looking for a section, otherwise page 1.
+ */
+export function getStartPageId(selector: PageSelector) {
+  if (selector.kind === "page") return `PA${selector.page}`
+  if (selector.kind === "range") return `PA${selector.from}`
+  if (selector.kind === "section") return "PP1"
+  return "PA1"
+}
+
+/**
+ * Whether a selector captures consecutive pages, whose text reads as one passage.
+ */
+export function isContinuousSelector(selector: PageSelector) {
+  return selector.kind === "bodyPages" || selector.kind === "range" || selector.kind === "firstChapter"
+}
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { stitchPages } from "./pageStitcher.js"
+
+describe("stitchPages", () => {
+  it("marks where each page starts", () => {
+    const text = stitchPages([
+      { label: "Page PA12", text: "The first page ends here." },
+      { label: "Page PA13", text: "The second page starts a paragraph." },
+    ])
+    assert.equal(text, "[Page PA12] The first page ends here.\n\n[Page PA13] The second page starts a paragraph.")
+  })
+
+  it("rejoins a word hyphenated across the page break", () => {
+    const text = stitchPages([
+      { label: "Page PA12", text: "It was a fine exam-" },
+      { label: "Page PA13", text: "ple of the form.\n\nA new paragraph." },
+    ])
+    assert.equal(text, "[Page PA12] It was a fine example [Page PA13] of the form.\n\nA new paragraph.")
+  })
+
+  it("keeps the hyphen when the next page starts with a capital", () => {
+    const text = stitchPages([
+      { label: "Page PA12", text: "They fought the Anglo-" },
+      { label: "Page PA13", text: "Saxon raiders." },
+    ])
+    assert.equal(text, "[Page PA12] They fought the Anglo- [Page PA13] Saxon raiders.")
+  })
+
+  it("joins words hyphenated at line breaks within a page", () => {
+    assert.equal(stitchPages([{ label: "Page PA12", text: "a long-\nwinded some-\nthing" }]), "[Page PA12] a longwinded something")
+  })
+
+  it("keeps a paragraph that runs over the page break together", () => {
+    const text = stitchPages([
+      { label: "Page PA12", text: "He walked up to the" },
+      { label: "Page PA13", text: "Door and knocked twice." },
+    ])
+    assert.equal(text, "[Page PA12] He walked up to the [Page PA13] Door and knocked twice.")
+  })
+
+  it("drops running heads and page numbers", () => {
+    const text = stitchPages([
+      { label: "Page PA12", text: "12\n\nTHE GREAT GATSBY\n\nIn my younger years my father gave me some advice." },
+      { label: "Page PA13", text: "The Great Gatsby 13\n\nI've been turning it over in my mind ever since.\n\n13" },
+    ])
+    assert.equal(
+      text,
+      "[Page PA12] In my younger years my father gave me some advice.\n\n[Page PA13] I've been turning it over in my mind ever since.",
+    )
+  })
+
+  it("drops known heads that appear on one page only", () => {
+    const text = stitchPages([{ label: "Page PA12", text: "F. Scott Fitzgerald\n\nIn my younger years." }], ["F. Scott Fitzgerald"])
+    assert.equal(text, "[Page PA12] In my younger years.")
+  })
+
+  it("leaves out pages with nothing but running heads", () => {
+    const text = stitchPages([
+      { label: "Page PA12", text: "The end of a chapter." },
+      { label: "Page PA13", text: "13" },
+      { label: "Page PA14", text: "A new chapter." },
+    ])
+    assert.equal(text, "[Page PA12] The end of a chapter.\n\n[Page PA14] A new chapter.")
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * Joins the text of consecutive book pages into one continuous passage:
+ *
+ *   - running heads and feet (the book or chapter title repeated at the top of each page,
+ *     page numbers) are dropped
+ *   - a word hyphenated across the page break is joined again
+ *   - a paragraph that runs over onto the next page is kept as one paragraph
+ *
+ * Each page's text starts at a `[Page PA12]` marker, inline when the page begins mid-paragraph.
+ */
+
+// Running heads are short single lines
+const MAX_RUNNING_HEAD_LENGTH = 80
+// Lines looked at for running heads at the top and bottom of each page
+const MAX_RUNNING_HEAD_LINES = 2
+
+const PAGE_NUMBER = /^(?:\d+|[ivxlcdm]+)$/i
+// Hyphen, soft hyphen or Unicode hyphen ending a line in the middle of a word
+const TRAILING_HYPHEN = /(\p{L})[-\u00ad\u2010]$/u
+const LINE_BREAK_HYPHEN = /(\p{L})[-\u00ad\u2010]\n(\p{Ll})/gu
+// End of a sentence, allowing closing quotes and brackets after it
+const SENTENCE_END = /[.!?…:]["'”’»)\]]*$/
+
+export interface PageText {
+  // Shown in the page's marker, e.g. "Page PA12"
+  label: string
+  text: string
+}
+
+// Lower-cased letters only, so "12 THE GREAT GATSBY" and "The Great Gatsby 13" compare equal
+function runningHeadKey(line: string) {
+  return line
+    .toLowerCase()
+    .replace(/[^\p{L}\s]/gu, " ")
+    .split(/\s+/)
+    .filter((word) => word && !PAGE_NUMBER.test(word))
+    .join(" ")
+}
+
+function isCandidateHead(paragraph: string) {
+  return paragraph.length <= MAX_RUNNING_HEAD_LENGTH && !paragraph.includes("\n")
+}
+
+function splitParagraphs(text: string) {
+  return text
+    .replace(/\r\n/g, "\n")
+    .replace(LINE_BREAK_HYPHEN, "$1$2")
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph.length > 0)
+}
+
+/**
+ * Removes running heads and feet from each page: lines at the top or bottom that are a bare
+ * page number, the book's title or author, or that repeat at the edge of another page.
+ */
+function dropRunningHeads(pages: string[][], knownHeads: string[]) {
+  const edgeKeys = (paragraphs: string[]) =>
+    [...paragraphs.slice(0, MAX_RUNNING_HEAD_LINES), ...paragraphs.slice(-MAX_RUNNING_HEAD_LINES)]
+      .filter(isCandidateHead)
+      .map(runningHeadKey)
+  const pagesWithKey = new Map<string, number>()
+  for (const paragraphs of pages) {
+    for (const key of new Set(edgeKeys(paragraphs))) {
+      pagesWithKey.set(key, (pagesWithKey.get(key) ?? 0) + 1)
+    }
+  }
+  const known = new Set(knownHeads.map(runningHeadKey).filter(Boolean))
+
+  const isRunningHead = (paragraph: string) => {
+    if (!isCandidateHead(paragraph)) return false
+    const key = runningHeadKey(paragraph)
+    return !key || known.has(key) || (pagesWithKey.get(key) ?? 0) >= 2
+  }
+
+  return pages.map((paragraphs) => {
+    let start = 0
+    let end = paragraphs.length
+    while (start < Math.min(end, MAX_RUNNING_HEAD_LINES) && isRunningHead(paragraphs[start])) start++
+    while (end > Math.max(start, paragraphs.length - MAX_RUNNING_HEAD_LINES) && isRunningHead(paragraphs[end - 1])) end--
+    return paragraphs.slice(start, end)
+  })
+}
+
+/**
+ * Stitches consecutive pages into one passage.
+ * @param {PageText[]} pages - The pages' text, in reading order
+ * @param {string[]} knownHeads - Lines that are running heads wherever they appear at a page's
+ *   edge, e.g. the book's title and author
+ * @returns {string} - The passage, paragraphs separated by blank lines
+ */
+export function stitchPages(pages: PageText[], knownHeads: string[] = []) {
+  const pageParagraphs = dropRunningHeads(pages.map((page) => splitParagraphs(page.text)), knownHeads)
+  const paragraphs: string[] = []
+
+  pageParagraphs.forEach((pageText, index) => {
+    if (pageText.length === 0) return
+    const marker = `[${pages[index].label}]`
+    const [first, ...rest] = pageText
+    const previous = paragraphs[paragraphs.length - 1]
+
+    if (previous !== undefined && TRAILING_HYPHEN.test(previous) && /^\p{Ll}/u.test(first)) {
+      // "exam-" + "ple, and so on": rejoin the word, with the marker after it
+      const [, wordEnd, after] = first.match(/^(\S+)\s*([\s\S]*)$/) ?? ["", first, ""]
+      paragraphs[paragraphs.length - 1] = `${previous.slice(0, -1)}${wordEnd} ${marker}${after ? ` ${after}` : ""}`
+    } else if (previous !== undefined && (!SENTENCE_END.test(previous) || /^\p{Ll}/u.test(first))) {
+      // The paragraph runs over the page break
+      paragraphs[paragraphs.length - 1] = `${previous} ${marker} ${first}`
+    } else {
+      paragraphs.push(`${marker} ${first}`)
+    }
+    paragraphs.push(...rest)
+  })
+
+  return paragraphs.join("\n\n")
+}
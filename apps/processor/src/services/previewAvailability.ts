@@ -0,0 +1,61 @@
+import type { PreviewAvailability, PreviewUnavailableReason, PreviewViewability } from "shared"
+
+/**
+ * Decides from the lookup's access info whether there is a Google Books preview to
+ * capture, so the browser is only launched when there is. Unknown viewability (e.g.
+ * a book found only by its cover) is given the benefit of the doubt.
+ */
+
+const UNAVAILABLE_MESSAGES: Record<PreviewUnavailableReason, string> = {
+  noVolume: "Google Books doesn't have this book, so there is no preview to read",
+  noPreview: "The publisher doesn't allow a preview of this book on Google Books",
+  notEmbeddable: "The Google Books preview of this book can't be embedded",
+}
+
+const GOOGLE_VIEWABILITY: Record<string, PreviewViewability> = { ALL_PAGES: "full", PARTIAL: "partial" }
+
+function unavailable(reason: PreviewUnavailableReason, volumeId: string | null): PreviewAvailability {
+  return {
+    available: false,
+    volumeId,
+    viewability: reason === "noVolume" ? "unknown" : "none",
+    reason,
+    message: UNAVAILABLE_MESSAGES[reason],
+  }
+}
+
+/**
+ * Checks whether the chosen book (or the edition picked for its preview) has a preview
+ * the screenshot stage can open.
+ * @param {Object} bookInfo - Book info from the fetchInfo stage
+ * @returns {PreviewAvailability} - The volume to capture, or why there is nothing to capture
+ */
+export function checkPreviewAvailability(bookInfo): PreviewAvailability {
+  // Editions are only picked for their preview, so theirs is known to be there
+  const edition = bookInfo.previewEdition
+  if (edition?.id) {
+    return { available: true, volumeId: edition.id, viewability: edition.viewability, reason: null, message: null }
+  }
+
+  if (!bookInfo.id) {
+    return unavailable("noVolume", null)
+  }
+
+  // The Google volume's own access info; `viewability` may describe another provider's preview
+  const accessInfo = bookInfo.accessInfo || {}
+  if (accessInfo.viewability === "NO_PAGES") {
+    return unavailable("noPreview", bookInfo.id)
+  }
+  // Pages are captured from the embedded viewer
+  if (accessInfo.embeddable === false) {
+    return unavailable("notEmbeddable", bookInfo.id)
+  }
+
+  return {
+    available: true,
+    volumeId: bookInfo.id,
+    viewability: GOOGLE_VIEWABILITY[accessInfo.viewability] ?? "unknown",
+    reason: null,
+    message: null,
+  }
+}
@@ -0,0 +1,233 @@
+import type { GenrePath } from "shared"
+
+/**
+ * Local BISAC subject taxonomy. Maps provider categories onto a hierarchical genre
+ * path and the most specific BISAC code we know for it:
+ *
+ *   "Fiction / Science Fiction / Space Opera"  ->  FIC028000, Fiction > Science Fiction > Space Opera
+ *   "Detective and mystery stories"            ->  FIC022000, Fiction > Mystery & Detective
+ *
+ * Google Books categories are BISAC headings and are matched level by level. Open Library
+ * subjects are free-form (and often loosely attached), so only the unambiguous genre
+ * terms in SUBJECT_ALIASES are mapped for them.
+ */
+
+// Major subjects; each has a "<Heading> / General" code ending in 000000
+const MAJOR_SUBJECTS: Array<[string, string]> = [
+  ["ANT", "Antiques & Collectibles"],
+  ["ARC", "Architecture"],
+  ["ART", "Art"],
+  ["BIB", "Bibles"],
+  ["BIO", "Biography & Autobiography"],
+  ["BOD", "Body, Mind & Spirit"],
+  ["BUS", "Business & Economics"],
+  ["CGN", "Comics & Graphic Novels"],
+  ["COM", "Computers"],
+  ["CKB", "Cooking"],
+  ["CRA", "Crafts & Hobbies"],
+  ["DES", "Design"],
+  ["DRA", "Drama"],
+  ["EDU", "Education"],
+  ["FAM", "Family & Relationships"],
+  ["FIC", "Fiction"],
+  ["FOR", "Foreign Language Study"],
+  ["GAM", "Games & Activities"],
+  ["GAR", "Gardening"],
+  ["HEA", "Health & Fitness"],
+  ["HIS", "History"],
+  ["HOM", "House & Home"],
+  ["HUM", "Humor"],
+  ["JUV", "Juvenile Fiction"],
+  ["JNF", "Juvenile Nonfiction"],
+  ["LAN", "Language Arts & Disciplines"],
+  ["LAW", "Law"],
+  ["LCO", "Literary Collections"],
+  ["LIT", "Literary Criticism"],
+  ["MAT", "Mathematics"],
+  ["MED", "Medical"],
+  ["MUS", "Music"],
+  ["NAT", "Nature"],
+  ["PER", "Performing Arts"],
+  ["PET", "Pets"],
+  ["PHI", "Philosophy"],
+  ["PHO", "Photography"],
+  ["POE", "Poetry"],
+  ["POL", "Political Science"],
+  ["PSY", "Psychology"],
+  ["REF", "Reference"],
+  ["REL", "Religion"],
+  ["SCI", "Science"],
+  ["SEL", "Self-Help"],
+  ["SOC", "Social Science"],
+  ["SPO", "Sports & Recreation"],
+  ["STU", "Study Aids"],
+  ["TEC", "Technology & Engineering"],
+  ["TRA", "Transportation"],
+  ["TRV", "Travel"],
+  ["TRU", "True Crime"],
+  ["YAF", "Young Adult Fiction"],
+  ["YAN", "Young Adult Nonfiction"],
+]
+
+// The major subjects plus the second-level fiction headings, where most filtering happens
+const SUBJECTS: Array<[string, string]> = [
+  ...MAJOR_SUBJECTS.map(([prefix, heading]): [string, string] => [`${prefix}000000`, `${heading} / General`]),
+  ["FIC002000", "Fiction / Action & Adventure"],
+  ["FIC003000", "Fiction / Anthologies (multiple authors)"],
+  ["FIC004000", "Fiction / Classics"],
+  ["FIC009000", "Fiction / Fantasy / General"],
+  ["FIC010000", "Fiction / Fairy Tales, Folk Tales, Legends & Mythology"],
+  ["FIC012000", "Fiction / Ghost"],
+  ["FIC014000", "Fiction / Historical / General"],
+  ["FIC015000", "Fiction / Horror"],
+  ["FIC016000", "Fiction / Humorous / General"],
+  ["FIC019000", "Fiction / Literary"],
+  ["FIC022000", "Fiction / Mystery & Detective / General"],
+  ["FIC024000", "Fiction / Occult & Supernatural"],
+  ["FIC025000", "Fiction / Psychological"],
+  ["FIC026000", "Fiction / Religious"],
+  ["FIC027000", "Fiction / Romance / General"],
+  ["FIC028000", "Fiction / Science Fiction / General"],
+  ["FIC029000", "Fiction / Short Stories (single author)"],
+  ["FIC031000", "Fiction / Thrillers / General"],
+  ["FIC032000", "Fiction / War & Military"],
+  ["FIC033000", "Fiction / Westerns"],
+  ["FIC037000", "Fiction / Political"],
+  ["FIC039000", "Fiction / Visionary & Metaphysical"],
+  ["FIC040000", "Fiction / Alternative History"],
+  ["FIC041000", "Fiction / Biographical"],
+  ["FIC044000", "Fiction / Women"],
+  ["FIC045000", "Fiction / Family Life / General"],
+  ["FIC047000", "Fiction / Sea Stories"],
+  ["FIC050000", "Fiction / Crime"],
+  ["FIC055000", "Fiction / Dystopian"],
+]
+
+// Free-form subject terms (as used by Open Library and libraries) that name one BISAC subject
+const SUBJECT_ALIASES: Record<string, string> = {
+  "fiction": "FIC000000",
+  "science fiction": "FIC028000",
+  "fantasy": "FIC009000",
+  "fantasy fiction": "FIC009000",
+  "detective and mystery stories": "FIC022000",
+  "mystery fiction": "FIC022000",
+  "detective fiction": "FIC022000",
+  "romance fiction": "FIC027000",
+  "love stories": "FIC027000",
+  "horror tales": "FIC015000",
+  "horror fiction": "FIC015000",
+  "historical fiction": "FIC014000",
+  "thrillers": "FIC031000",
+  "suspense fiction": "FIC031000",
+  "short stories": "FIC029000",
+  "adventure stories": "FIC002000",
+  "adventure fiction": "FIC002000",
+  "dystopias": "FIC055000",
+  "dystopian fiction": "FIC055000",
+  "ghost stories": "FIC012000",
+  "humorous stories": "FIC016000",
+  "humorous fiction": "FIC016000",
+  "war stories": "FIC032000",
+  "western stories": "FIC033000",
+  "fairy tales": "FIC010000",
+  "classic literature": "FIC004000",
+  "juvenile fiction": "JUV000000",
+  "children's fiction": "JUV000000",
+  "children's stories": "JUV000000",
+  "young adult fiction": "YAF000000",
+  "biography": "BIO000000",
+  "autobiography": "BIO000000",
+  "cookbooks": "CKB000000",
+  "cooking": "CKB000000",
+  "poetry": "POE000000",
+  "graphic novels": "CGN000000",
+  "comic books, strips, etc": "CGN000000",
+}
+
+function normalize(text: string) {
+  return text.toLowerCase().replace(/\s+/g, " ").replace(/\.$/, "").trim()
+}
+
+function splitPath(path: string) {
+  return path.split("/").map((part) => part.trim()).filter((part) => part.length > 0)
+}
+
+// Normalized path -> code, e.g. "fiction / fantasy / general" -> FIC009000
+const CODES_BY_PATH = new Map(SUBJECTS.map(([code, path]) => [normalize(path), code]))
+// Code -> canonical path, without a trailing "General"
+const PATHS_BY_CODE = new Map(
+  SUBJECTS.map(([code, path]) => {
+    const parts = splitPath(path)
+    return [code, parts[parts.length - 1] === "General" ? parts.slice(0, -1) : parts]
+  }),
+)
+
+function findCode(parts: string[]) {
+  const key = normalize(parts.join(" / "))
+  return CODES_BY_PATH.get(key) ?? CODES_BY_PATH.get(`${key} / general`) ?? null
+}
+
+/**
+ * Maps a BISAC-style heading ("Fiction / Fantasy / Epic") onto the taxonomy.
+ * @returns {GenrePath|null} - null when the first level isn't a BISAC major subject
+ */
+function mapHeading(category: string): GenrePath | null {
+  const parts = splitPath(category)
+
+  // Deepest level we have a code for; the levels below it are kept as given
+  for (let depth = parts.length; depth > 0; depth--) {
+    const code = findCode(parts.slice(0, depth))
+    if (code) {
+      const known = PATHS_BY_CODE.get(code) || []
+      const rest = parts.slice(depth).filter((part) => normalize(part) !== "general")
+      return { code, path: [...known, ...rest], category }
+    }
+  }
+  return null
+}
+
+function mapAlias(category: string): GenrePath | null {
+  const code = SUBJECT_ALIASES[normalize(category)]
+  return code ? { code, path: PATHS_BY_CODE.get(code) || [], category } : null
+}
+
+/**
+ * Maps one provider category onto a genre path.
+ * @param {string} category - e.g. "Fiction / Science Fiction / General" or "Science fiction"
+ * @param {boolean} freeForm - Whether the category is a free-form subject (Open Library) rather
+ *   than a BISAC heading (Google Books); free-form subjects are only mapped through known aliases
+ * @returns {GenrePath|null} - The genre path and BISAC code, or null if it isn't in the taxonomy
+ */
+export function mapCategory(category: string, freeForm = false): GenrePath | null {
+  if (!category || !category.trim()) return null
+  if (freeForm) return mapAlias(category)
+  return mapHeading(category) ?? mapAlias(category)
+}
+
+/**
+ * Maps a book's categories onto genre paths, most specific first and without duplicates.
+ * @param {string[]} categories - Provider categories or subjects
+ * @param {boolean} freeForm - See mapCategory
+ * @returns {GenrePath[]} - Mapped genres; unmapped categories are left out
+ */
+export function mapCategories(categories: string[], freeForm = false): GenrePath[] {
+  const genres = categories
+    .map((category) => mapCategory(category, freeForm))
+    .filter((genre): genre is GenrePath => genre !== null)
+
+  // Stable sort keeps the provider's order between genres of the same depth
+  return mergeGenres(genres).sort((a, b) => b.path.length - a.path.length)
+}
+
+/**
+ * Combines genre lists, keeping the first occurrence of each path.
+ */
+export function mergeGenres(...lists: GenrePath[][]): GenrePath[] {
+  const seen = new Set<string>()
+  return lists.flat().filter((genre) => {
+    const key = genre.path.join(" / ")
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
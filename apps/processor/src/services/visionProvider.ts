@@ -0,0 +1,256 @@
+import { createOpenAI } from "@ai-sdk/openai"
+import type { LanguageModelV1 } from "ai"
+
+/**
+ * Pipeline stages that call a vision/LLM model. Each stage can be pointed at a
+ * different provider and model through environment variables:
+ *
+ *   VISION_PROVIDER=openai|local|fake          default provider for every stage
+ *   VISION_PROVIDER_<STAGE>=openai|local|fake  per-stage override
+ *   VISION_MODEL=gpt-4o-mini                   default model id
+ *   VISION_MODEL_<STAGE>=...                   per-stage model id
+ *
+ * where <STAGE> is VALIDATE, IDENTIFY, ANALYZE, FIRST_PAGE or TRANSLATE.
+ */
+export type VisionStage = "validate" | "identify" | "analyze" | "firstPage" | "translate"
+
+export type ProviderName = "openai" | "local" | "fake"
+
+export interface VisionProvider {
+  name: ProviderName
+  // Whether the provider has everything it needs to make calls
+  isConfigured(): boolean
+  // Reason shown to the user when the provider is not configured
+  missingConfigReason(): string | null
+  languageModel(modelId: string, stage: VisionStage): LanguageModelV1
+}
+
+export interface StageConfig {
+  stage: VisionStage
+  provider: ProviderName
+  model: string
+  configured: boolean
+}
+
+export const VISION_STAGES: VisionStage[] = ["validate", "identify", "analyze", "firstPage", "translate"]
+
+const DEFAULT_PROVIDER: ProviderName = "openai"
+const DEFAULT_OPENAI_MODEL = "gpt-4o-mini"
+const DEFAULT_LOCAL_MODEL = "llava"
+
+const PROVIDER_NAMES: ProviderName[] = ["openai", "local", "fake"]
+
+function stageEnvSuffix(stage: VisionStage) {
+  return stage.replace(/[A-Z]/g, (letter) => `_${letter}`).toUpperCase()
+}
+
+const openaiProvider: VisionProvider = {
+  name: "openai",
+  isConfigured() {
+    return !!process.env.OPENAI_API_KEY
+  },
+  missingConfigReason() {
+    return this.isConfigured()
+      ? null
+      : "OpenAI API key is not configured. Please set the OPENAI_API_KEY environment variable."
+  },
+  languageModel(modelId) {
+    // Created per call so a key set after startup (e.g. by dotenv) is picked up
+    const openai = createOpenAI({ apiKey: process.env.OPENAI_API_KEY, compatibility: "strict" })
+    return openai(modelId)
+  },
+}
+
+/**
+ * Any server that speaks the OpenAI chat completions API, e.g. Ollama
+ * (http://localhost:11434/v1) or llama.cpp's server (http://localhost:8080/v1).
+ */
+const localProvider: VisionProvider = {
+  name: "local",
+  isConfigured() {
+    return !!process.env.LOCAL_LLM_BASE_URL
+  },
+  missingConfigReason() {
+    return this.isConfigured()
+      ? null
+      : "Local LLM endpoint is not configured. Please set the LOCAL_LLM_BASE_URL environment variable."
+  },
+  languageModel(modelId) {
+    const local = createOpenAI({
+      baseURL: process.env.LOCAL_LLM_BASE_URL,
+      // Most local servers ignore the key, but the client refuses to run without one
+      apiKey: process.env.LOCAL_LLM_API_KEY || "local",
+      compatibility: "compatible",
+      name: "local",
+    })
+    return local(modelId)
+  },
+}
+
+// Canned answers used by the fake provider, one per stage
+const DEFAULT_FAKE_RESPONSES: Record<VisionStage, string> = {
+  validate: "yes",
+  identify: JSON.stringify({
+    title: "The Fake Book",
+    author: "Jane Doe",
+    isbn: null,
+    isFiction: true,
+    language: "en",
+    confidence: { title: 1, author: 1, isbn: 0, isFiction: 0.5 },
+  }),
+  analyze: "It was a bright cold day in April, and the clocks were striking thirteen.",
+  firstPage: "yes",
+  translate: "Era un día luminoso y frío de abril, y los relojes daban las trece.",
+}
+
+// Read from FAKE_PROVIDER_RESPONSES on first use rather than at import, so a .env file
+// loaded after this module has been imported still applies
+let fakeResponses: Record<VisionStage, string> | null = null
+
+function loadFakeResponsesFromEnv() {
+  const responses = { ...DEFAULT_FAKE_RESPONSES }
+  if (!process.env.FAKE_PROVIDER_RESPONSES) return responses
+
+  try {
+    const overrides = JSON.parse(process.env.FAKE_PROVIDER_RESPONSES)
+    for (const stage of VISION_STAGES) {
+      if (typeof overrides[stage] === "string") {
+        responses[stage] = overrides[stage]
+      }
+    }
+  } catch (error) {
+    console.error("Ignoring invalid FAKE_PROVIDER_RESPONSES:", error)
+  }
+  return responses
+}
+
+function getFakeResponses() {
+  fakeResponses ??= loadFakeResponsesFromEnv()
+  return fakeResponses
+}
+
+/**
+ * Overrides the fake provider's answer for a stage. Passing null restores the default.
+ */
+export function setFakeResponse(stage: VisionStage, text: string | null) {
+  getFakeResponses()[stage] = text ?? DEFAULT_FAKE_RESPONSES[stage]
+}
+
+function createFakeModel(modelId: string, stage: VisionStage): LanguageModelV1 {
+  const usage = { promptTokens: 0, completionTokens: 0 }
+  const rawCall = { rawPrompt: null, rawSettings: {} }
+
+  return {
+    specificationVersion: "v1",
+    provider: "fake",
+    modelId,
+    defaultObjectGenerationMode: "json",
+    async doGenerate() {
+      return { text: getFakeResponses()[stage], finishReason: "stop", usage, rawCall }
+    },
+    async doStream() {
+      const text = getFakeResponses()[stage]
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            controller.enqueue({ type: "text-delta", textDelta: text })
+            controller.enqueue({ type: "finish", finishReason: "stop", usage })
+            controller.close()
+          },
+        }),
+        rawCall,
+      }
+    },
+  }
+}
+
+/**
+ * Deterministic provider that never leaves the process. Intended for tests and
+ * for exercising the pipeline without API credentials.
+ */
+const fakeProvider: VisionProvider = {
+  name: "fake",
+  isConfigured() {
+    return true
+  },
+  missingConfigReason() {
+    return null
+  },
+  languageModel(modelId, stage) {
+    return createFakeModel(modelId, stage)
+  },
+}
+
+const providers: Record<ProviderName, VisionProvider> = {
+  openai: openaiProvider,
+  local: localProvider,
+  fake: fakeProvider,
+}
+
+function parseProviderName(value: string | undefined): ProviderName | null {
+  if (!value) return null
+
+  const name = value.trim().toLowerCase() as ProviderName
+  if (!PROVIDER_NAMES.includes(name)) {
+    console.warn(`Unknown vision provider "${value}", expected one of: ${PROVIDER_NAMES.join(", ")}`)
+    return null
+  }
+  return name
+}
+
+export function getStageProvider(stage: VisionStage): VisionProvider {
+  const name =
+    parseProviderName(process.env[`VISION_PROVIDER_${stageEnvSuffix(stage)}`]) ||
+    parseProviderName(process.env.VISION_PROVIDER) ||
+    DEFAULT_PROVIDER
+  return providers[name]
+}
+
+export function getStageModelId(stage: VisionStage) {
+  const provider = getStageProvider(stage)
+  return (
+    process.env[`VISION_MODEL_${stageEnvSuffix(stage)}`] ||
+    process.env.VISION_MODEL ||
+    (provider.name === "local" ? process.env.LOCAL_LLM_MODEL || DEFAULT_LOCAL_MODEL : DEFAULT_OPENAI_MODEL)
+  )
+}
+
+/**
+ * Returns the language model configured for a pipeline stage.
+ * @param {VisionStage} stage - Pipeline stage making the call
+ * @returns {LanguageModelV1} - Model to pass to generateText/generateObject
+ */
+export function getStageModel(stage: VisionStage): LanguageModelV1 {
+  const provider = getStageProvider(stage)
+  const reason = provider.missingConfigReason()
+  if (reason) {
+    throw new Error(reason)
+  }
+  return provider.languageModel(getStageModelId(stage), stage)
+}
+
+export function describeStageConfig(): StageConfig[] {
+  return VISION_STAGES.map((stage) => {
+    const provider = getStageProvider(stage)
+    return {
+      stage,
+      provider: provider.name,
+      model: getStageModelId(stage),
+      configured: provider.isConfigured(),
+    }
+  })
+}
+
+/**
+ * Lists configuration problems for the providers the pipeline will actually use.
+ * An empty list means every stage can run.
+ * @param {VisionStage[]} stages - Stages to check, defaults to all of them
+ */
+export function getProviderConfigErrors(stages: VisionStage[] = VISION_STAGES): string[] {
+  const reasons = new Set<string>()
+  for (const stage of stages) {
+    const reason = getStageProvider(stage).missingConfigReason()
+    if (reason) reasons.add(reason)
+  }
+  return [...reasons]
+}
@@ -1,8 +0,0 @@
-export interface BookInfo {
-  title: string
-  author: string
-  isFiction: boolean
-  isbn: string | null
-  description: string | null
-}
-
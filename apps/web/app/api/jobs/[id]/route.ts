@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+
+// Returns the status of a processing job from the processor service
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  try {
+    const processorUrl = process.env.PROCESSOR_SERVICE_URL || "http://localhost:3001/api/process"
+    const jobUrl = `${processorUrl.split("/api/")[0]}/api/jobs/${encodeURIComponent(params.id)}`
+
+    const processorResponse = await fetch(jobUrl, {
+      method: "GET",
+      headers: {
+        Accept: "application/json",
+      },
+      signal: AbortSignal.timeout(5000),
+    })
+
+    const data = await processorResponse.json()
+    return NextResponse.json(data, { status: processorResponse.status })
+  } catch (error) {
+    console.error("Error fetching job status:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch job status: " + (error instanceof Error ? error.message : "Unknown error") },
+      { status: 502 },
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { type NextRequest, NextResponse } from "next/server"
+
+// Starts a background job on the processor service and returns its id right away
+export async function POST(request: NextRequest) {
+  console.log("API route handler called: /api/jobs")
+
+  try {
+    const formData = await request.formData()
+    const image = formData.get("image") as File | null
+    const volumeId = formData.get("volumeId")
+
+    if (!image && typeof volumeId !== "string") {
+      console.log("No image provided in request")
+      return NextResponse.json({ error: "No image provided" }, { status: 400 })
+    }
+
+    // Forward the image and any options to the processor service
+    const processorFormData = new FormData()
+    if (image) {
+      const imageBlob = new Blob([await image.arrayBuffer()], { type: image.type })
+      processorFormData.append("image", imageBlob, image.name)
+    }
+
+    // Every other field is an option (extractionMode, volumeId, pageSelector, targetLanguage,
+    // bypassCache, autoCrop...); the processor validates them, so pass them all through
+    formData.forEach((value, field) => {
+      if (field !== "image" && typeof value === "string") {
+        processorFormData.append(field, value)
+      }
+    })
+
+    const processorUrl = process.env.PROCESSOR_SERVICE_URL || "http://localhost:3001/api/process"
+    const jobsUrl = `${processorUrl.split("/api/")[0]}/api/jobs`
+    console.log("Creating job on processor service at:", jobsUrl)
+
+    const processorResponse = await fetch(jobsUrl, {
+      method: "POST",
+      body: processorFormData,
+      signal: AbortSignal.timeout(30000),
+    })
+
+    const data = await processorResponse.json()
+    return NextResponse.json(data, { status: processorResponse.status })
+  } catch (error) {
+    console.error("Error creating job:", error)
+    return NextResponse.json(
+      { error: "Failed to create the processing job: " + (error instanceof Error ? error.message : "Unknown error") },
+      { status: 502 },
+    )
+  }
+}
@@ -7,6 +7,19 @@ import { Card } from "@/components/ui/card"
 import { Textarea } from "@/components/ui/textarea"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { AnimatePresence, motion } from "framer-motion"
+import type { BookCandidate, PipelineEvent, PipelineStage, ProcessResult } from "shared"
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  preprocess: "Preparing the image...",
+  scanBarcode: "Looking for a barcode...",
+  validate: "Checking the cover...",
+  identify: "Identifying the book...",
+  fetchInfo: "Looking up the book...",
+  checkPreview: "Checking for a preview...",
+  screenshot: "Finding the first page...",
+  analyze: "Extracting text...",
+  translate: "Translating...",
+}
 
 export default function Home() {
   const [file, setFile] = useState<File | null>(null)
@@ -15,6 +28,8 @@ export default function Home() {
   const [url, setUrl] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<string | null>(null)
+  const [candidates, setCandidates] = useState<BookCandidate[]>([])
   const [processorStatus, setProcessorStatus] = useState<"checking" | "online" | "offline">("checking")
   const [apiUrl, setApiUrl] = useState<string>("")
 
@@ -48,20 +63,33 @@ export default function Home() {
       reader.readAsDataURL(selectedFile)
       setResult(null)
       setError(null)
+      setCandidates([])
     }
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!file) return
+    await processBook()
+  }
 
+  // Re-runs processing for a candidate the user picked, skipping identification
+  const handleCandidateSelect = async (volumeId: string) => {
+    await processBook(volumeId)
+  }
+
+  const processBook = async (volumeId?: string) => {
     setLoading(true)
     setError(null)
 
     try {
       const formData = new FormData()
-      formData.append("image", file)
-      const processorUrl = "http://localhost:3001/api/process"
+      if (volumeId) {
+        formData.append("volumeId", volumeId)
+      } else if (file) {
+        formData.append("image", file)
+      }
+      const processorUrl = "http://localhost:3001/api/jobs"
       const response = await fetch(processorUrl, { method: "POST", body: formData })
       const contentType = response.headers.get("content-type")
 
@@ -70,19 +98,58 @@ export default function Home() {
         throw new Error(`Invalid response (${response.status}): ${text}`)
       }
 
-      const data = await response.json()
-      if (!response.ok) throw new Error(data.error || `Failed to process image (${response.status})`)
+      const job = await response.json()
+      if (!response.ok) throw new Error(job.error || `Failed to process image (${response.status})`)
 
+      const data = await followJob(`http://localhost:3001/api/jobs/${job.id}/events`)
       setResult(data.text)
-      setUrl(data.url)
+      setUrl(data.url ?? null)
+      setCandidates(data.needsSelection ? data.candidates ?? [] : [])
     } catch (err) {
       console.error("Error:", err)
       setError(err instanceof Error ? err.message : "An unknown error occurred")
     } finally {
       setLoading(false)
+      setProgress(null)
     }
   }
 
+  // Listens to the job's progress stream and resolves with the final result
+  const followJob = (eventsUrl: string) =>
+    new Promise<ProcessResult>((resolve, reject) => {
+      const source = new EventSource(eventsUrl)
+      const parse = (e: Event) => JSON.parse((e as MessageEvent).data) as PipelineEvent
+
+      source.addEventListener("stageStarted", (e) => {
+        const event = parse(e)
+        if (event.type === "stageStarted") setProgress(STAGE_LABELS[event.stage])
+      })
+      source.addEventListener("stageFinished", (e) => {
+        const event = parse(e)
+        if (event.type === "stageFinished" && event.stage === "identify" && event.data.title) {
+          setProgress(`Found "${event.data.title}"${event.data.author ? ` by ${event.data.author}` : ""}`)
+        }
+      })
+      source.addEventListener("pageChecked", (e) => {
+        const event = parse(e)
+        if (event.type === "pageChecked") setProgress(`Checked preview page ${event.index}...`)
+      })
+      source.addEventListener("completed", (e) => {
+        const event = parse(e)
+        source.close()
+        if (event.type === "completed") resolve(event.result)
+      })
+      source.addEventListener("failed", (e) => {
+        const event = parse(e)
+        source.close()
+        reject(new Error(event.type === "failed" ? event.error : "Processing failed"))
+      })
+      source.onerror = () => {
+        source.close()
+        reject(new Error("Lost connection to the processor service"))
+      }
+    })
+
   return (
     <main className="flex min-h-screen flex-col items-center bg-gray-50 p-6 md:p-12">
       <div className="w-full max-w-6xl mx-auto space-y-12">
@@ -90,6 +157,7 @@ export default function Home() {
         <div className="text-center space-y-4">
           <h1 className="text-4xl font-bold tracking-tight text-gray-900">Book Page Extractor</h1>
           <p className="text-lg text-gray-600">Upload a book cover image to extract text from its first pages</p>
+          <p className="text-sm text-gray-500">Tip: a photo of the back cover barcode gives the most reliable match</p>
         </div>
 
         {/* Side-by-Side Layout */}
@@ -173,7 +241,7 @@ export default function Home() {
                     {loading ? (
                       <>
                         <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Processing...
+                        {progress || "Processing..."}
                       </>
                     ) : (
                       "Extract Text"
@@ -226,6 +294,35 @@ export default function Home() {
                   </Card>
                 </motion.div>
               )}
+              {candidates.length > 0 && (
+                <motion.div
+                  initial={{ opacity: 0, x: 50 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, x: 50 }}
+                  transition={{ duration: 0.5, delay: 0.2 }}
+                >
+                  <Card className="p-6 bg-white shadow-md rounded-xl w-full">
+                    <h2 className="text-xl font-semibold text-gray-900 mb-4">Choose Your Book</h2>
+                    <ul className="space-y-2">
+                      {candidates.map((candidate) => (
+                        <li key={candidate.id}>
+                          <Button
+                            variant="outline"
+                            className="w-full justify-between"
+                            disabled={loading}
+                            onClick={() => handleCandidateSelect(candidate.id)}
+                          >
+                            <span className="truncate">
+                              {candidate.bookInfo.title} by {candidate.bookInfo.author}
+                            </span>
+                            <span className="ml-4 text-xs text-gray-500">{Math.round(candidate.score * 100)}% match</span>
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
+                  </Card>
+                </motion.div>
+              )}
               {url && (
                 <motion.div
                   initial={{ opacity: 0, x: 50 }}
@@ -1,16 +1,330 @@
+/**
+ * ISBNs that have been validated and normalized by the processor's services/isbn.ts. The brand keeps
+ * raw strings (with hyphens, prefixes or bad check digits) from being passed as one.
+ */
+export type Isbn13 = string & { readonly __brand: "Isbn13" }
+export type Isbn10 = string & { readonly __brand: "Isbn10" }
+
+export type FictionLabel = "fiction" | "nonfiction" | "unknown"
+
+export type FictionSignalSource = "bisac" | "category" | "description" | "title" | "llm"
+
+export interface FictionSignal {
+  source: FictionSignalSource
+  // What matched, e.g. "FIC009000", "Biography & Autobiography" or "novel"
+  value: string
+  // Positive weights point to fiction, negative to non-fiction
+  weight: number
+}
+
+/**
+ * Output of the processor's services/fictionClassifier.ts.
+ */
+export interface FictionClassification {
+  label: FictionLabel
+  // How sure the classifier is of the fiction/non-fiction call, 0.5 = no evidence
+  confidence: number
+  signals: FictionSignal[]
+}
+
+/**
+ * A book's genre in the BISAC subject hierarchy, e.g. Fiction > Science Fiction > Space Opera.
+ */
+export interface GenrePath {
+  // Most specific BISAC code known for the path, e.g. FIC028000
+  code: string | null
+  path: string[]
+  // The provider category it was mapped from
+  category: string
+}
+
+export interface IndustryIdentifier {
+  // ISBN_13, ISBN_10, ISSN, OCLC, LCCN or OTHER
+  type: string
+  identifier: string
+}
+
+/**
+ * Cover image URLs, smallest first. Providers don't always have every size.
+ */
+export interface CoverThumbnails {
+  small: string | null
+  medium: string | null
+  large: string | null
+}
+
+/**
+ * How much of the book the provider's preview shows. Borrowable Internet Archive scans
+ * count as partial, since only some pages can be read without borrowing.
+ */
+export type PreviewViewability = "full" | "partial" | "none" | "unknown"
+
+export type PreviewUnavailableReason = "noVolume" | "noPreview" | "notEmbeddable"
+
+/**
+ * Whether a looked-up volume is the book on the cover, from the processor's services/bookVerification.ts.
+ */
+export interface MatchVerification {
+  // "partial" when only the title or only the author could be confirmed
+  verdict: "match" | "partial" | "mismatch" | "unverified"
+  // 0-1; null when the ISBN decided it or the cover had nothing to compare
+  titleSimilarity: number | null
+  authorSimilarity: number | null
+  reasons: string[]
+}
+
+/**
+ * Outcome of the preview check that runs before the browser is launched.
+ */
+export interface PreviewAvailability {
+  available: boolean
+  // Google Books volume whose preview is captured, possibly another edition's
+  volumeId: string | null
+  viewability: PreviewViewability
+  reason: PreviewUnavailableReason | null
+  // Why there is no preview, for showing to the user
+  message: string | null
+}
+
+/**
+ * One edition of a book, as listed next to the photographed one.
+ */
+export interface EditionSummary {
+  // Google Books volume id or Open Library work id
+  id: string
+  source: "googleBooks" | "openLibrary"
+  title: string | null
+  publisher: string | null
+  publishedDate: string | null
+  language: string | null
+  isbn: Isbn13 | null
+  viewability: PreviewViewability
+}
+
 export interface BookInfo {
   title: string
+  subtitle: string | null
+  // Every author, joined with commas for display
   author: string
-  isFiction: boolean
-  isbn: string | null
+  authors: string[]
+  publisher: string | null
+  // As given by the provider: a year, year-month or full date
+  publishedDate: string | null
+  pageCount: number | null
+  // ISO 639-1 code where known, e.g. "en"
+  language: string | null
+  // null when the classifier wasn't confident either way
+  isFiction: boolean | null
+  fiction?: FictionClassification
+  isbn: Isbn13 | null
+  isbn10?: Isbn10 | null
+  // e.g. 978-0-306-40615-7; null when the registration group's ranges aren't known
+  isbnHyphenated?: string | null
+  // ISBNs first, then any other identifiers the providers know
+  industryIdentifiers: IndustryIdentifier[]
   description: string | null
+  thumbnails: CoverThumbnails
+  viewability: PreviewViewability
+  // Another edition of the same work whose preview pages are captured, when the
+  // photographed edition has no preview of its own
+  previewEdition?: EditionSummary | null
+  // Most specific genre, and every genre the categories mapped to
+  genre?: GenrePath | null
+  genres?: GenrePath[]
+  // How well the volume matches the cover it was looked up from
+  verification?: MatchVerification | null
+}
+
+/**
+ * How page text is pulled out of the captured screenshots.
+ * "llm" sends each page to the analyze-stage vision model, "ocr" runs tesseract locally.
+ */
+export type ExtractionMode = "llm" | "ocr"
+
+/**
+ * Front-matter sections a caller can ask for by name.
+ */
+export type FrontMatterSection = "title" | "copyright" | "dedication" | "contents" | "foreword" | "preface" | "introduction"
+
+/**
+ * Which preview pages to capture. "auto" picks by genre: the second body page for fiction,
+ * the first for non-fiction, both when unknown. Page numbers are printed page numbers,
+ * i.e. Google Books' PA page ids.
+ */
+export type PageSelector =
+  | { kind: "auto" }
+  | { kind: "firstBodyPage" }
+  // The first `count` pages of body text, stitched into one passage
+  | { kind: "bodyPages"; count: number }
+  | { kind: "page"; page: number }
+  | { kind: "range"; from: number; to: number }
+  | { kind: "section"; section: FrontMatterSection }
+  | { kind: "firstChapter" }
+
+/**
+ * A captured preview page.
+ */
+export interface CapturedPage {
+  // Google Books page id: "PA12" for printed page 12, "PP3" for the third unnumbered front page;
+  // null when the viewer didn't say which page was in view
+  pageId: string | null
+  // The page image the viewer downloaded, or a screenshot of the viewport when there was none
+  source: "pageImage" | "screenshot"
+}
+
+/**
+ * Steps of processBookCover, in the order they run.
+ */
+export type PipelineStage = "preprocess" | "scanBarcode" | "validate" | "identify" | "fetchInfo" | "checkPreview" | "screenshot" | "analyze" | "translate"
+
+/**
+ * Progress events emitted while a book is processed. `type` doubles as the
+ * SSE event name on /api/jobs/:id/events.
+ */
+export type PipelineEvent =
+  | { type: "stageStarted"; stage: PipelineStage }
+  // data holds the stage's intermediate output, e.g. the identified title/author or the volume id
+  | { type: "stageFinished"; stage: PipelineStage; data: Record<string, unknown> }
+  // A captured preview page and whether it is the page being looked for (the first body page,
+  // or the requested front-matter section), and whether that was decided from the page's OCR
+  // text ("local") or by asking the firstPage-stage model. The screenshot is only sent live;
+  // events replayed from a job's history leave it out
+  | { type: "pageChecked"; index: number; isFirstPage: boolean; pageId?: string | null; checkedBy?: "local" | "model"; screenshot?: string }
+  | { type: "completed"; result: ProcessResult }
+  | { type: "failed"; error: string }
+
+export type PipelineEventHandler = (event: PipelineEvent) => void
+
+export type MetadataSource = "googleBooks" | "openLibrary"
+
+/**
+ * Book info as the processor looks it up, with the ids and provider details the later stages use.
+ */
+export interface ProviderBookInfo extends BookInfo {
+  // Google Books volume id; null for books only Open Library knows
+  id: string | null
+  openLibraryId: string | null
+  // null when no provider has the book and the cover's own details are used
+  source: MetadataSource | null
+  // Every provider that contributed, the one that matched first
+  sources: MetadataSource[]
+  previewLink: string | null
+  // Google Books categories or Open Library subjects
+  categories: string[]
+  // Google Books' access info for the volume; empty for other providers
+  accessInfo: { viewability?: string; embeddable?: boolean }
 }
 
+/**
+ * A Google Books volume that may be the photographed book, scored against the cover details.
+ */
+export interface BookCandidate {
+  // Google Books volume id or Open Library work id; send it back as volumeId
+  id: string
+  // 0-1, where 1 is an ISBN match or an exact title and author match
+  score: number
+  reasons: string[]
+  verification: MatchVerification
+  bookInfo: ProviderBookInfo
+}
+
+export interface BookMatch {
+  bookInfo: ProviderBookInfo
+  candidates: BookCandidate[]
+  // False when the best candidate scored below the threshold and the caller should choose
+  selected: boolean
+}
+
+export type CacheOutcome = "hit" | "miss" | "bypass" | "disabled"
+
+export interface CacheStatus {
+  // Image fingerprint -> identified book
+  identity: CacheOutcome
+  // Volume id -> screenshots and extracted text
+  volume: CacheOutcome
+}
+
+export interface TextTranslation {
+  // ISO 639-1 code the text was translated into
+  language: string
+  text: string
+}
+
+/**
+ * What processBookCover resolves with. Only the fields read outside the pipeline are typed;
+ * the others (cache status, preprocessing, barcode scan, ...) are passed through to clients.
+ */
 export interface ProcessResult {
   text: string
+  url?: string | null
+  // Google Books volume id, null for books only Open Library knows
+  bookInfo?: BookInfo & { id: string | null }
+  // Whether the looked-up book is the one on the cover; null when the caller chose the volume
+  verification?: MatchVerification | null
+  // Whether there was a preview to capture, and why not
+  preview?: PreviewAvailability
+  // ISO 639-1 code of the book's text, when known
+  language?: string | null
+  // The text in the requested target language; null when none was asked for or it was already in it
+  translation?: TextTranslation | null
+  // The page selector the pages were captured with, and the preview pages captured, in order
+  pageSelector?: PageSelector
+  pages?: CapturedPage[]
+  identifiedBy?: "volumeId" | "cache" | "barcode" | "vision"
+  // Set when no candidate was a confident match; re-run with one of the candidates' ids as volumeId
+  needsSelection?: boolean
+  candidates?: BookCandidate[]
+  [key: string]: unknown
 }
 
 export interface ErrorResponse {
   error: string
 }
 
+export interface ProcessOptions {
+  extractionMode?: ExtractionMode
+  // Volume picked by the caller from a previous run's candidates; skips validation and identification
+  volumeId?: string
+  // Skip cache lookups; results are still written to the cache
+  bypassCache?: boolean
+  // Trim the background around the book before the vision calls; defaults to IMAGE_AUTO_CROP
+  autoCrop?: boolean
+  // ISO 639-1 code to translate the extracted text into; not translated when unset
+  targetLanguage?: string
+  // Which preview pages to capture; defaults to "auto"
+  pageSelector?: PageSelector
+  onEvent?: PipelineEventHandler
+}
+
+export type JobStatus = "queued" | "running" | "completed" | "failed"
+
+export interface ProcessJob {
+  id: string
+  status: JobStatus
+  stage: PipelineStage | null
+  // Intermediate output of the stages that have finished so far
+  partial: Record<string, unknown>
+  result: ProcessResult | null
+  error: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface BatchItem {
+  index: number
+  // File name as uploaded, or the path inside the zip archive
+  name: string
+  status: JobStatus
+  jobId: string | null
+  result: ProcessResult | null
+  error: string | null
+}
+
+export interface ProcessBatch {
+  id: string
+  status: JobStatus
+  items: BatchItem[]
+  counts: Record<JobStatus, number>
+  createdAt: string
+  updatedAt: string
+}